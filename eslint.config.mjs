@@ -1,6 +1,11 @@
 import nextVitals from "eslint-config-next/core-web-vitals";
 import nextTs from "eslint-config-next/typescript";
 
-const config = [...nextVitals, ...nextTs];
+const config = [
+  ...nextVitals,
+  ...nextTs,
+  // Minified engine bundles copied in by scripts/copy-recognition-assets.mjs.
+  { ignores: ["public/vendor/**"] }
+];
 
 export default config;
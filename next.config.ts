@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  reactStrictMode: true
+  reactStrictMode: true,
+  env: {
+    // Which recognition engines are bundled into public/vendor; see scripts/copy-recognition-assets.mjs.
+    RECOGNITION_ENGINES: process.env.RECOGNITION_ENGINES ?? "tesseract,opencv"
+  }
 };
 
 export default nextConfig;
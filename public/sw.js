@@ -0,0 +1,124 @@
+// PuzzleSnap service worker: keeps the app shell, its chunks, the recognition engines
+// and the language data in one cache so play and photo recognition work offline after
+// the first visit. Bump CACHE_VERSION to drop everything cached by an older worker.
+const CACHE_VERSION = 1;
+const CACHE_NAME = `puzzlesnap-v${CACHE_VERSION}`;
+
+const STATIC_URLS = ["/manifest.webmanifest", "/logo.png", "/icon-192.png", "/icon-512.png"];
+const SHELL_URLS = ["/", ...STATIC_URLS];
+
+// Copied into public/vendor at build time; engines left out of the build are skipped.
+const ENGINE_URLS = [
+  "/vendor/tesseract/worker.min.js",
+  "/vendor/tesseract/tesseract-core-lstm.wasm.js",
+  "/vendor/tesseract/tesseract-core-simd-lstm.wasm.js",
+  "/vendor/tesseract/lang/eng.traineddata.gz",
+  "/vendor/opencv/opencv.js"
+];
+
+// Chunk names are hashed per build, so they are found by reading the HTML and then the
+// chunks themselves, which name the lazily loaded ones (recognition worker, OCR, etc.).
+const ASSET_PATTERN = /(?:\/_next\/)?static\/(?:chunks|css|media)\/[\w\-.~/]+\.(?:js|css|woff2?|png|svg|webp)/g;
+
+function extractAssetUrls(text) {
+  return Array.from(text.matchAll(ASSET_PATTERN), ([match]) =>
+    match.startsWith("/_next/") ? match : `/_next/${match}`
+  );
+}
+
+async function cacheAppAssets(cache, html) {
+  const seen = new Set();
+  let queue = extractAssetUrls(html);
+  while (queue.length > 0) {
+    const fresh = queue.filter((url) => !seen.has(url));
+    fresh.forEach((url) => seen.add(url));
+    const found = await Promise.all(
+      fresh.map(async (url) => {
+        let response = await cache.match(url);
+        if (!response) {
+          try {
+            response = await fetch(url);
+          } catch {
+            return [];
+          }
+          if (!response.ok) {
+            return [];
+          }
+          await cache.put(url, response.clone());
+        }
+        return /\.(?:js|css)$/.test(url) ? extractAssetUrls(await response.text()) : [];
+      })
+    );
+    queue = found.flat();
+  }
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.addAll(SHELL_URLS);
+      await Promise.all(ENGINE_URLS.map((url) => cache.add(url).catch(() => undefined)));
+      const shell = await cache.match("/");
+      if (shell) {
+        await cacheAppAssets(cache, await shell.text());
+      }
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+async function networkFirstPage(event) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      await cache.put(event.request, response.clone());
+      // A new deploy brings new chunk names; pick them up while we are online.
+      event.waitUntil(response.clone().text().then((html) => cacheAppAssets(cache, html)));
+    }
+    return response;
+  } catch {
+    return (await cache.match(event.request)) ?? (await cache.match("/")) ?? Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(event));
+    return;
+  }
+  // Hashed chunks never change. Vendor files only change when the engine packages are
+  // upgraded, which should come with a CACHE_VERSION bump.
+  if (url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/vendor/") || STATIC_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
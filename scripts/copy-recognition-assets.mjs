@@ -0,0 +1,54 @@
+// Copies the recognition engines into public/vendor so they are served from our own
+// origin. RECOGNITION_ENGINES picks which ones ship, e.g. RECOGNITION_ENGINES=tesseract
+// leaves out the 7 MB OpenCV build; next.config.ts passes the same value to the app.
+import { copyFileSync, mkdirSync, rmSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+
+const require = createRequire(import.meta.url);
+const vendorDir = join(process.cwd(), "public", "vendor");
+
+const packageDir = (name) => dirname(require.resolve(`${name}/package.json`));
+
+const ENGINE_ASSETS = {
+  tesseract: [
+    [join(packageDir("tesseract.js"), "dist", "worker.min.js"), "tesseract/worker.min.js"],
+    // The app always runs Tesseract in LSTM-only mode, so only those cores are needed.
+    [join(packageDir("tesseract.js-core"), "tesseract-core-lstm.wasm.js"), "tesseract/tesseract-core-lstm.wasm.js"],
+    [
+      join(packageDir("tesseract.js-core"), "tesseract-core-simd-lstm.wasm.js"),
+      "tesseract/tesseract-core-simd-lstm.wasm.js"
+    ],
+    [
+      join(packageDir("@tesseract.js-data/eng"), "4.0.0_best_int", "eng.traineddata.gz"),
+      "tesseract/lang/eng.traineddata.gz"
+    ]
+  ],
+  opencv: [[join(packageDir("@techstark/opencv-js"), "dist", "opencv.js"), "opencv/opencv.js"]]
+};
+
+const selected = (process.env.RECOGNITION_ENGINES ?? "tesseract,opencv")
+  .split(",")
+  .map((engine) => engine.trim())
+  .filter(Boolean);
+
+const unknown = selected.filter((engine) => !(engine in ENGINE_ASSETS));
+if (unknown.length > 0) {
+  console.error(`Unknown recognition engine(s): ${unknown.join(", ")}. Choose from ${Object.keys(ENGINE_ASSETS).join(", ")}.`);
+  process.exit(1);
+}
+
+for (const [engine, assets] of Object.entries(ENGINE_ASSETS)) {
+  // Clear first so an engine dropped from the build does not linger from an earlier one.
+  rmSync(join(vendorDir, engine), { recursive: true, force: true });
+  if (!selected.includes(engine)) {
+    continue;
+  }
+  for (const [from, to] of assets) {
+    const target = join(vendorDir, to);
+    mkdirSync(dirname(target), { recursive: true });
+    copyFileSync(from, target);
+  }
+}
+
+console.log(`Recognition engines in public/vendor: ${selected.join(", ") || "none"}`);
@@ -1,4 +1,5 @@
 import type { Metadata } from "next";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -6,8 +7,12 @@ export const metadata: Metadata = {
   description: "Sudoku app with notes, undo, and OCR-based puzzle import",
   icons: {
     icon: "/logo.png",
-    apple: "/logo.png",
+    apple: "/icon-192.png",
     shortcut: "/logo.png"
+  },
+  appleWebApp: {
+    capable: true,
+    title: "PuzzleSnap"
   }
 };
 
@@ -37,6 +42,7 @@ export default function RootLayout({
           }}
         />
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -0,0 +1,182 @@
+"use client";
+
+import NextImage from "next/image";
+import { ArrowLeft, Eraser, Play, RotateCcw } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { computeConflictMask, createEmptyValues, toRowCol, type BoardValues } from "@/lib/sudoku";
+import { countSolutions } from "@/lib/sudoku-solver";
+
+type PuzzleEditorProps = {
+  onStart: (givens: BoardValues) => void;
+  onBack: () => void;
+};
+
+const DIGITS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+function describeSolutionCount(count: number, hasConflicts: boolean, givens: number): string {
+  if (givens === 0) {
+    return "Type the givens of your puzzle.";
+  }
+  if (hasConflicts) {
+    return "Some digits clash; fix the red cells first.";
+  }
+  if (count === 0) {
+    return "No solution. One of the givens is wrong.";
+  }
+  if (count === 1) {
+    return "Exactly one solution.";
+  }
+  return "More than one solution so far; keep adding givens.";
+}
+
+export default function PuzzleEditor({ onStart, onBack }: PuzzleEditorProps) {
+  const [values, setValues] = useState<BoardValues>(createEmptyValues);
+  const [selected, setSelected] = useState(0);
+
+  const conflictMask = useMemo(() => computeConflictMask(values), [values]);
+  const hasConflicts = conflictMask.some(Boolean);
+  const givenCount = values.filter((value) => value !== null).length;
+  // The solver stops at two, which is all the editor needs to tell unique from ambiguous.
+  const solutionCount = useMemo(() => (hasConflicts ? 0 : countSolutions(values, 2)), [hasConflicts, values]);
+
+  const setDigit = useCallback(
+    (digit: number | null, advance = false) => {
+      setValues((prev) => {
+        const next = [...prev];
+        next[selected] = digit;
+        return next;
+      });
+      if (advance) {
+        setSelected((prev) => Math.min(80, prev + 1));
+      }
+    },
+    [selected]
+  );
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) {
+        return;
+      }
+      if (/^[1-9]$/.test(event.key)) {
+        event.preventDefault();
+        setDigit(Number.parseInt(event.key, 10), true);
+        return;
+      }
+      if (event.key === "0" || event.key === "." || event.key === " ") {
+        event.preventDefault();
+        setDigit(null, true);
+        return;
+      }
+      if (event.key === "Backspace" || event.key === "Delete") {
+        event.preventDefault();
+        setDigit(null);
+        return;
+      }
+
+      const { row, col } = toRowCol(selected);
+      if (event.key === "ArrowUp") {
+        event.preventDefault();
+        setSelected(((row + 8) % 9) * 9 + col);
+      } else if (event.key === "ArrowDown") {
+        event.preventDefault();
+        setSelected(((row + 1) % 9) * 9 + col);
+      } else if (event.key === "ArrowLeft") {
+        event.preventDefault();
+        setSelected(row * 9 + ((col + 8) % 9));
+      } else if (event.key === "ArrowRight") {
+        event.preventDefault();
+        setSelected(row * 9 + ((col + 1) % 9));
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [selected, setDigit]);
+
+  const canStart = givenCount > 0 && !hasConflicts && solutionCount > 0;
+  const checkStatus =
+    givenCount === 0 ? null : !canStart ? "none" : solutionCount === 1 ? "unique" : "multiple";
+
+  return (
+    <div className="page-shell">
+      <main className="card">
+        <div className="title-block">
+          <div className="title-row">
+            <div className="title-main">
+              <NextImage src="/logo.png" alt="PuzzleSnap logo" width={72} height={72} className="app-logo" />
+              <div className="title-text">
+                <h1>PuzzleSnap</h1>
+                <span className="title-chip">Type a puzzle</span>
+              </div>
+            </div>
+            <button
+              type="button"
+              className="icon-only-button back-button"
+              onClick={onBack}
+              aria-label="Back to upload"
+              title="Back"
+            >
+              <ArrowLeft size={18} aria-hidden />
+            </button>
+          </div>
+          <p>Type digits to fill a cell and move on; 0, space or . blanks a cell and moves on. Arrow keys move.</p>
+        </div>
+
+        <section className="board-wrap">
+          <div className="board" role="grid" aria-label="Puzzle editor">
+            {values.map((value, index) => {
+              const row = Math.floor(index / 9);
+              const col = index % 9;
+              const classNames = ["cell", "cell-given"];
+              if (selected === index) classNames.push("cell-selected");
+              if (conflictMask[index]) classNames.push("cell-invalid");
+              if ((col + 1) % 3 === 0 && col < 8) classNames.push("cell-box-right");
+              if ((row + 1) % 3 === 0 && row < 8) classNames.push("cell-box-bottom");
+              return (
+                <button key={index} type="button" className={classNames.join(" ")} onClick={() => setSelected(index)}>
+                  {value !== null && <span className="cell-value">{value}</span>}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        <section className="controls">
+          <p className={`puzzle-check ${checkStatus ? `puzzle-check-${checkStatus}` : ""}`}>
+            {givenCount} givens · {describeSolutionCount(solutionCount, hasConflicts, givenCount)}
+          </p>
+          <div className="keypad">
+            {DIGITS.map((digit) => (
+              <button key={digit} type="button" className="key" onClick={() => setDigit(digit, true)}>
+                {digit}
+              </button>
+            ))}
+          </div>
+          <div className="action-row">
+            <button type="button" className="key" onClick={() => setDigit(null)}>
+              <span className="key-content">
+                <Eraser size={16} aria-hidden />
+                Delete
+              </span>
+            </button>
+            <button type="button" className="key" onClick={() => setValues(createEmptyValues())}>
+              <span className="key-content">
+                <RotateCcw size={16} aria-hidden />
+                Clear
+              </span>
+            </button>
+            <button type="button" className="key" onClick={() => onStart(values)} disabled={!canStart}>
+              <span className="key-content">
+                <Play size={16} aria-hidden />
+                Start play
+              </span>
+            </button>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import NextImage from "next/image";
+import { ArrowLeft, Dices, Play, RefreshCw, Sparkles } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { DIFFICULTY_LABELS, type DifficultyLabel } from "@/lib/sudoku-difficulty";
+import {
+  PUZZLE_SYMMETRIES,
+  createSeed,
+  generatePuzzle,
+  type GeneratedPuzzle,
+  type GeneratorOptions,
+  type GeneratorWorkerMessage,
+  type PuzzleSymmetry
+} from "@/lib/sudoku-generator";
+
+type PuzzleGeneratorProps = {
+  onGenerate: (puzzle: GeneratedPuzzle) => void;
+  onBack: () => void;
+};
+
+// "Needs guessing" is a rating outcome, not something worth asking the generator for.
+const TARGET_DIFFICULTIES = DIFFICULTY_LABELS.filter((label) => label !== "Needs guessing");
+
+const SYMMETRY_NAMES: Record<PuzzleSymmetry, string> = {
+  none: "None",
+  rotational: "Rotational",
+  diagonal: "Diagonal"
+};
+
+// An Expert search can take a few seconds, so it runs in a worker of its own that an abort
+// simply terminates. Without worker support it runs inline.
+function generateInWorker(options: GeneratorOptions, signal: AbortSignal): Promise<GeneratedPuzzle> {
+  if (typeof Worker === "undefined") {
+    return Promise.resolve().then(() => generatePuzzle(options));
+  }
+  return new Promise<GeneratedPuzzle>((resolve, reject) => {
+    const worker = new Worker(new URL("../lib/sudoku-generator.worker.ts", import.meta.url));
+    const stop = () => {
+      worker.terminate();
+      signal.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      stop();
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort);
+    worker.onmessage = (event: MessageEvent<GeneratorWorkerMessage>) => {
+      stop();
+      if (event.data.type === "result") {
+        resolve(event.data.puzzle);
+      } else {
+        reject(new Error(event.data.message));
+      }
+    };
+    worker.onerror = (event) => {
+      stop();
+      reject(new Error(event.message || "Puzzle generation failed"));
+    };
+    worker.postMessage(options);
+  });
+}
+
+export default function PuzzleGenerator({ onGenerate, onBack }: PuzzleGeneratorProps) {
+  const [difficulty, setDifficulty] = useState<DifficultyLabel>("Medium");
+  const [symmetry, setSymmetry] = useState<PuzzleSymmetry>("rotational");
+  const [seed, setSeed] = useState(createSeed);
+  const [busy, setBusy] = useState(false);
+  const [closest, setClosest] = useState<GeneratedPuzzle | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      generationRef.current?.abort();
+    };
+  }, []);
+
+  const generate = async () => {
+    generationRef.current?.abort();
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setBusy(true);
+    setClosest(null);
+    setError(null);
+    try {
+      const puzzle = await generateInWorker(
+        { difficulty, symmetry, seed: seed.trim() || createSeed() },
+        controller.signal
+      );
+      if (puzzle.rating.label === difficulty) {
+        onGenerate(puzzle);
+      } else {
+        setClosest(puzzle);
+      }
+    } catch (generationError) {
+      if (!controller.signal.aborted) {
+        setError(generationError instanceof Error ? generationError.message : "Puzzle generation failed");
+      }
+    } finally {
+      if (generationRef.current === controller) {
+        generationRef.current = null;
+        setBusy(false);
+      }
+    }
+  };
+
+  return (
+    <div className="page-shell upload-stage-shell">
+      <main className="card setup-card upload-card">
+        <div className="title-block">
+          <div className="title-row">
+            <div className="title-main">
+              <NextImage src="/logo.png" alt="PuzzleSnap logo" width={72} height={72} className="app-logo" />
+              <div className="title-text">
+                <h1>PuzzleSnap</h1>
+                <span className="title-chip">New puzzle</span>
+              </div>
+            </div>
+            <button
+              type="button"
+              className="icon-only-button back-button"
+              onClick={onBack}
+              aria-label="Back to upload"
+              title="Back"
+            >
+              <ArrowLeft size={18} aria-hidden />
+            </button>
+          </div>
+          <p>Generate a puzzle with exactly one solution. The same seed always gives the same puzzle.</p>
+        </div>
+
+        <section className="setup-type-panel generator-form">
+          <label>
+            Difficulty
+            <select value={difficulty} onChange={(event) => setDifficulty(event.target.value as DifficultyLabel)}>
+              {TARGET_DIFFICULTIES.map((label) => (
+                <option key={label} value={label}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Symmetry
+            <select value={symmetry} onChange={(event) => setSymmetry(event.target.value as PuzzleSymmetry)}>
+              {PUZZLE_SYMMETRIES.map((option) => (
+                <option key={option} value={option}>
+                  {SYMMETRY_NAMES[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Seed
+            <span className="generator-seed">
+              <input value={seed} onChange={(event) => setSeed(event.target.value)} spellCheck={false} />
+              <button
+                type="button"
+                className="key"
+                onClick={() => setSeed(createSeed())}
+                aria-label="New random seed"
+                title="Random seed"
+              >
+                <Dices size={16} aria-hidden />
+              </button>
+            </span>
+          </label>
+          <div className="import-actions">
+            <button type="button" className="key" onClick={() => void generate()} disabled={busy}>
+              <span className="key-content">
+                {busy ? <RefreshCw size={16} className="spin" aria-hidden /> : <Sparkles size={16} aria-hidden />}
+                {busy ? "Generating..." : "Generate"}
+              </span>
+            </button>
+          </div>
+          {error && <p className="ocr-error">{error}</p>}
+          {closest && (
+            <div className="hint-panel">
+              <p>
+                No {difficulty.toLowerCase()} puzzle found for seed &quot;{closest.seed}&quot; after{" "}
+                {closest.attempts} attempts. The closest was {closest.rating.label.toLowerCase()}.
+              </p>
+              <div className="import-actions">
+                <button type="button" className="key" onClick={() => onGenerate(closest)}>
+                  <span className="key-content">
+                    <Play size={16} aria-hidden />
+                    Play it anyway
+                  </span>
+                </button>
+              </div>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -1,13 +1,81 @@
 "use client";
 
 import NextImage from "next/image";
-import { ArrowLeft, Camera, Eye, EyeOff, ImagePlus, Play, Trash2 } from "lucide-react";
-import { ChangeEvent, DragEvent, MouseEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ArrowLeft,
+  Camera,
+  Eye,
+  EyeOff,
+  ImagePlus,
+  Keyboard,
+  LibraryBig,
+  PenLine,
+  Play,
+  Sparkles,
+  Trash2
+} from "lucide-react";
+import {
+  ChangeEvent,
+  DragEvent,
+  MouseEvent,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore
+} from "react";
+import PuzzleEditor from "@/components/PuzzleEditor";
+import PuzzleGenerator from "@/components/PuzzleGenerator";
+import PuzzleTextTransfer from "@/components/PuzzleTextTransfer";
+import SavedGameLibrary from "@/components/SavedGameLibrary";
 import SudokuApp from "@/components/SudokuApp";
-import { createEmptyValues, type BoardValues } from "@/lib/sudoku";
-import { recognizeSudokuFromImageFile, type NormalizedCorner } from "@/lib/sudoku-recognition";
+import {
+  boardsEqual,
+  createEmptyNotes,
+  createEmptyValues,
+  describeCell,
+  digitsFromMask,
+  hasNote,
+  isBoardSolved,
+  type BoardValues
+} from "@/lib/sudoku";
+import {
+  DIGIT_RECOGNIZER_NAMES,
+  DIGIT_RECOGNIZERS,
+  recognizeSudokuFromImageFile,
+  type DigitRecognizerId,
+  type NormalizedCorner,
+  type RecognizedCell
+} from "@/lib/sudoku-recognition";
+import { describeDifficulty, rateDifficulty, type DifficultyRating } from "@/lib/sudoku-difficulty";
+import { hasProgress, parsePuzzleText, type ParsedPuzzle } from "@/lib/sudoku-formats";
+import { type GeneratedPuzzle } from "@/lib/sudoku-generator";
+import { type RecognitionCorrection } from "@/lib/sudoku-ocr-correction";
+import { decodeShareCode, readShareCode } from "@/lib/sudoku-share";
+import { checkPuzzle, type PuzzleCheck } from "@/lib/sudoku-solver";
+import {
+  clearSession,
+  createGameId,
+  createGameProgress,
+  loadLibrary,
+  loadSession,
+  loadSessionPreview,
+  saveSession,
+  saveSessionPreview,
+  updateLibrary,
+  type GameProgress,
+  type LibraryEntry
+} from "@/lib/sudoku-storage";
 
-type Stage = "upload" | "detect" | "play";
+type Stage = "upload" | "library" | "generate" | "type" | "detect" | "play";
+
+const DIGITS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const LOW_CONFIDENCE = 60;
+const RECOGNIZER_STORAGE_KEY = "sudokupaste.recognizer.v1";
+const BOARD_REVIEW_DELAY_MS = 400;
+
+const subscribeToNothing = () => () => {};
 
 function autoOrderCorners(corners: NormalizedCorner[]): NormalizedCorner[] {
   if (corners.length !== 4) {
@@ -19,18 +87,119 @@ function autoOrderCorners(corners: NormalizedCorner[]): NormalizedCorner[] {
   return [topTwo[0], topTwo[1], bottomTwo[1], bottomTwo[0]];
 }
 
+function loadRecognizerPreference(): DigitRecognizerId {
+  const raw = window.localStorage.getItem(RECOGNIZER_STORAGE_KEY);
+  return DIGIT_RECOGNIZERS.find((id) => id === raw) ?? DIGIT_RECOGNIZERS[0];
+}
+
+function isTextPuzzleFile(file: File): boolean {
+  return file.type === "text/plain" || file.type === "text/csv" || /\.(txt|sdk|csv)$/i.test(file.name);
+}
+
+function describePuzzleCheck(check: PuzzleCheck): string {
+  if (check.status === "unique") {
+    return "Puzzle check: exactly one solution.";
+  }
+  if (check.status === "multiple") {
+    return "Puzzle check: several solutions. A given may have been missed.";
+  }
+  if (check.culprits.length === 0) {
+    return "Puzzle check: no solution, and no single given explains it. Review the digits.";
+  }
+  return `Puzzle check: no solution. Removing any one of ${check.culprits.map(describeCell).join(", ")} makes it solvable.`;
+}
+
+function describePaperProgress(entries: BoardValues, notes: number[]): string[] {
+  const entryCount = entries.filter((value) => value !== null).length;
+  const noteCount = notes.filter((mask) => mask !== 0).length;
+  if (entryCount === 0 && noteCount === 0) {
+    return [];
+  }
+  const parts = [
+    entryCount > 0 ? `${entryCount} player ${entryCount === 1 ? "entry" : "entries"}` : null,
+    noteCount > 0 ? `pencil marks in ${noteCount} ${noteCount === 1 ? "cell" : "cells"}` : null
+  ].filter(Boolean);
+  return [`Found ${parts.join(" and ")}; they carry over into play.`];
+}
+
+type BoardReview = {
+  values: BoardValues;
+  check: PuzzleCheck;
+  difficulty: DifficultyRating | null;
+};
+
+type SharedLink = {
+  entry: LibraryEntry | null;
+  error: string | null;
+};
+
+function readSharedLink(): SharedLink | null {
+  const code = readShareCode(window.location.hash);
+  if (!code) {
+    return null;
+  }
+  try {
+    const puzzle = decodeShareCode(code);
+    const now = Date.now();
+    return {
+      entry: {
+        id: createGameId(),
+        createdAt: now,
+        updatedAt: now,
+        givens: puzzle.givens,
+        progress: createGameProgress(puzzle.givens, puzzle.values, puzzle.notes),
+        thumbnailUrl: null,
+        completed: false
+      },
+      error: null
+    };
+  } catch (linkError) {
+    return { entry: null, error: linkError instanceof Error ? linkError.message : "Puzzle link could not be read." };
+  }
+}
+
 export default function PuzzleSnapApp() {
-  const [stage, setStage] = useState<Stage>("upload");
+  const [sharedLink] = useState(() => (typeof window === "undefined" ? null : readSharedLink()));
+  const shared = sharedLink?.entry ?? null;
+  const [savedSession] = useState(() => (typeof window === "undefined" || shared ? null : loadSession()));
+  const hydrated = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+  const [stage, setStage] = useState<Stage>(() => (shared ? "play" : savedSession?.stage ?? "upload"));
+  const activeStage = hydrated ? stage : "upload";
   const [importFile, setImportFile] = useState<File | null>(null);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
 
+  const [digitRecognizer, setDigitRecognizer] = useState<DigitRecognizerId>(() =>
+    typeof window === "undefined" ? DIGIT_RECOGNIZERS[0] : loadRecognizerPreference()
+  );
+
   const [busy, setBusy] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [message, setMessage] = useState("Upload a Sudoku image to start.");
+  const [message, setMessage] = useState(() =>
+    shared
+      ? "Opened a shared puzzle."
+      : savedSession
+        ? "Restored your saved puzzle."
+        : "Upload a Sudoku image to start."
+  );
   const [error, setError] = useState<string | null>(null);
 
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [recognizedValues, setRecognizedValues] = useState<BoardValues>(createEmptyValues());
+  const [previewUrl, setPreviewUrl] = useState<string | null>(() => (savedSession ? loadSessionPreview() : null));
+  const [recognizedValues, setRecognizedValues] = useState<BoardValues>(
+    () => shared?.givens ?? savedSession?.recognizedValues ?? createEmptyValues()
+  );
+  const [gameProgress, setGameProgress] = useState<GameProgress | null>(
+    () => shared?.progress ?? savedSession?.progress ?? null
+  );
+  const [gameId, setGameId] = useState<string | null>(() => shared?.id ?? savedSession?.gameId ?? null);
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [library, setLibrary] = useState<LibraryEntry[]>(() => (shared ? [shared] : []));
+  const [libraryLoaded, setLibraryLoaded] = useState(false);
+  const [recognizedCells, setRecognizedCells] = useState<RecognizedCell[]>([]);
+  // Progress read off a photo of a paper game or a screenshot of another app: the player's
+  // entries (handwritten or in the app's entry colour) and pencil marks.
+  const [paperEntries, setPaperEntries] = useState<BoardValues>(createEmptyValues);
+  const [paperNotes, setPaperNotes] = useState<number[]>(createEmptyNotes);
+  const [corrections, setCorrections] = useState<RecognitionCorrection[]>([]);
   const [selectedDetectedCell, setSelectedDetectedCell] = useState<number | null>(null);
   const [showOverlay, setShowOverlay] = useState(true);
   const [manualCorners, setManualCorners] = useState<NormalizedCorner[]>([]);
@@ -38,6 +207,14 @@ export default function PuzzleSnapApp() {
     () => (manualCorners.length === 4 ? autoOrderCorners(manualCorners) : null),
     [manualCorners]
   );
+  const [boardReview, setBoardReview] = useState<BoardReview | null>(null);
+  const reviewWanted = stage === "detect" && !busy && recognizedValues.some((value) => value !== null);
+  // A review of an older board is never shown; the fresh one follows once edits pause.
+  const currentReview = reviewWanted && boardReview?.values === recognizedValues ? boardReview : null;
+  const puzzleCheck = currentReview?.check ?? null;
+  const difficulty = currentReview?.difficulty ?? null;
+  const culpritCells = useMemo(() => new Set(puzzleCheck?.culprits ?? []), [puzzleCheck]);
+  const correctedCells = useMemo(() => new Set(corrections.map((correction) => correction.index)), [corrections]);
 
   const [isDragging, setIsDragging] = useState(false);
 
@@ -45,8 +222,19 @@ export default function PuzzleSnapApp() {
   const cameraInputRef = useRef<HTMLInputElement | null>(null);
   const imageHitRef = useRef<HTMLDivElement | null>(null);
   const previousCornerCountRef = useRef(0);
+  const recognitionRef = useRef<AbortController | null>(null);
+  // The library as last written to storage; entries are replaced, never mutated, so a changed
+  // game is one whose object differs.
+  const storedLibraryRef = useRef<LibraryEntry[]>([]);
 
-  const runRecognition = useCallback(async (file: File, corners?: NormalizedCorner[]) => {
+  const runRecognition = useCallback(async (
+    file: File,
+    corners?: NormalizedCorner[],
+    recognizer: DigitRecognizerId = digitRecognizer
+  ) => {
+    recognitionRef.current?.abort();
+    const controller = new AbortController();
+    recognitionRef.current = controller;
     setBusy(true);
     setError(null);
     setMessage("Preparing image...");
@@ -57,27 +245,83 @@ export default function PuzzleSnapApp() {
           setProgress(p);
           setMessage(s);
         },
-        corners && corners.length === 4
-          ? { manualCorners: [corners[0], corners[1], corners[2], corners[3]] }
-          : undefined
+        {
+          manualCorners: corners && corners.length === 4 ? [corners[0], corners[1], corners[2], corners[3]] : undefined,
+          recognizer,
+          signal: controller.signal
+        }
       );
       setPreviewUrl(result.previewUrl);
+      setThumbnailUrl(result.thumbnailUrl);
       setRecognizedValues(result.values);
+      setPaperEntries(result.entries);
+      setPaperNotes(result.notes);
+      setRecognizedCells(result.cells);
+      setCorrections(result.corrections);
       setSelectedDetectedCell(null);
       setShowOverlay(true);
       setMessage(
-        result.droppedConflicts > 0
-          ? `Recognition complete. Removed ${result.droppedConflicts} conflicting digits.`
-          : "Recognition complete."
+        [
+          result.corrections.length > 0
+            ? `Recognition complete. Corrected ${result.corrections.length} ${result.corrections.length === 1 ? "cell" : "cells"}.`
+            : "Recognition complete.",
+          ...describePaperProgress(result.entries, result.notes),
+          ...result.notices
+        ].join(" ")
       );
     } catch (recognitionError) {
+      if (controller.signal.aborted) {
+        return;
+      }
       const text = recognitionError instanceof Error ? recognitionError.message : "Recognition failed";
       setError(text);
       setMessage("Recognition failed.");
     } finally {
-      setBusy(false);
-      setProgress(0);
+      // A newer run owns the busy state once this one has been replaced.
+      if (recognitionRef.current === controller) {
+        recognitionRef.current = null;
+        setBusy(false);
+        setProgress(0);
+      }
+    }
+  }, [digitRecognizer]);
+
+  const changeRecognizer = (next: DigitRecognizerId) => {
+    setDigitRecognizer(next);
+    window.localStorage.setItem(RECOGNIZER_STORAGE_KEY, next);
+    if (importFile) {
+      void runRecognition(importFile, orderedCorners ?? undefined, next);
+    }
+  };
+
+  useEffect(() => {
+    if (stage !== "detect") {
+      recognitionRef.current?.abort();
+    }
+  }, [stage]);
+
+  useEffect(() => {
+    if (!reviewWanted) {
+      return;
     }
+    // Solving, and the culprit search on an unsolvable grid, can take a while; wait until edits pause.
+    const timer = window.setTimeout(() => {
+      const check = checkPuzzle(recognizedValues);
+      setBoardReview({
+        values: recognizedValues,
+        check,
+        difficulty: check.status === "unique" ? rateDifficulty(recognizedValues) : null
+      });
+    }, BOARD_REVIEW_DELAY_MS);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [recognizedValues, reviewWanted]);
+
+  useEffect(() => {
+    return () => {
+      recognitionRef.current?.abort();
+    };
   }, []);
 
   const handleFile = useCallback(async (file: File | null) => {
@@ -98,6 +342,8 @@ export default function PuzzleSnapApp() {
     });
     setImportFile(file);
     setManualCorners([]);
+    setGameProgress(null);
+    setGameId(null);
     setStage("detect");
     await runRecognition(file);
   }, [runRecognition]);
@@ -110,26 +356,263 @@ export default function PuzzleSnapApp() {
     };
   }, [originalImageUrl]);
 
+  useEffect(() => {
+    if (!hydrated || busy) {
+      return;
+    }
+    if (stage !== "detect" && stage !== "play") {
+      clearSession();
+      return;
+    }
+    if (stage === "play" && !gameProgress) {
+      return;
+    }
+    saveSession({ stage, gameId, recognizedValues, progress: gameProgress });
+  }, [busy, gameId, gameProgress, hydrated, recognizedValues, stage]);
+
+  const sessionStage = stage === "detect" || stage === "play";
+  useEffect(() => {
+    if (hydrated && !busy && sessionStage) {
+      saveSessionPreview(previewUrl);
+    }
+  }, [busy, hydrated, previewUrl, sessionStage]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void loadLibrary().then((stored) => {
+      if (cancelled) {
+        return;
+      }
+      storedLibraryRef.current = stored;
+      // Entries added before the load finished (a shared link, a quick import) win over stored copies.
+      setLibrary((prev) => [...prev, ...stored.filter((entry) => !prev.some((item) => item.id === entry.id))]);
+      setLibraryLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Until the stored games are in there is nothing to compare against.
+    if (!libraryLoaded) {
+      return;
+    }
+    const stored = new Set(storedLibraryRef.current);
+    const ids = new Set(library.map((entry) => entry.id));
+    const changed = library.filter((entry) => !stored.has(entry));
+    const removedIds = storedLibraryRef.current.flatMap((entry) => (ids.has(entry.id) ? [] : [entry.id]));
+    storedLibraryRef.current = library;
+    void updateLibrary(changed, removedIds);
+  }, [library, libraryLoaded]);
+
+  useEffect(() => {
+    if (!sharedLink) {
+      return;
+    }
+    // The link has been copied into the library; drop it so a refresh does not import it again.
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    // The server renders no error, so a bad link is only reported once hydration is done.
+    if (sharedLink.error) {
+      setError(sharedLink.error);
+    }
+  }, [sharedLink]);
+
+  const handleProgressChange = useCallback(
+    (nextProgress: GameProgress) => {
+      setGameProgress(nextProgress);
+      if (!gameId) {
+        return;
+      }
+      setLibrary((prev) =>
+        prev.map((entry) =>
+          entry.id === gameId
+            ? { ...entry, progress: nextProgress, updatedAt: Date.now(), completed: isBoardSolved(nextProgress.values) }
+            : entry
+        )
+      );
+    },
+    [gameId]
+  );
+
+  const addLibraryEntry = useCallback((givens: BoardValues, thumbnail: string | null) => {
+    const now = Date.now();
+    const entry: LibraryEntry = {
+      id: createGameId(),
+      createdAt: now,
+      updatedAt: now,
+      givens: [...givens],
+      progress: null,
+      thumbnailUrl: thumbnail,
+      completed: false
+    };
+    setLibrary((prev) => [entry, ...prev]);
+    setGameId(entry.id);
+  }, []);
+
+  const startPlay = () => {
+    if (!gameProgress || !boardsEqual(gameProgress.startValues, recognizedValues)) {
+      const hasPaperProgress = paperEntries.some((value) => value !== null) || paperNotes.some((mask) => mask !== 0);
+      setGameProgress(
+        hasPaperProgress
+          ? createGameProgress(
+              recognizedValues,
+              recognizedValues.map((given, index) => given ?? paperEntries[index]),
+              paperNotes.map((mask, index) => (recognizedValues[index] === null && paperEntries[index] === null ? mask : 0))
+            )
+          : null
+      );
+    }
+    const current = gameId ? library.find((entry) => entry.id === gameId) : undefined;
+    if (!current || !boardsEqual(current.givens, recognizedValues)) {
+      addLibraryEntry(recognizedValues, thumbnailUrl);
+    }
+    setStage("play");
+  };
+
+  // Loads a board that did not come from a photo, dropping any image-specific state.
+  const loadBoard = useCallback((givens: BoardValues, text: string) => {
+    setRecognizedValues([...givens]);
+    setGameProgress(null);
+    setPreviewUrl(null);
+    setThumbnailUrl(null);
+    setRecognizedCells([]);
+    setPaperEntries(createEmptyValues());
+    setPaperNotes(createEmptyNotes());
+    setCorrections([]);
+    setSelectedDetectedCell(null);
+    setImportFile(null);
+    setOriginalImageUrl(null);
+    setManualCorners([]);
+    setError(null);
+    setMessage(text);
+  }, []);
+
+  const playGenerated = (puzzle: GeneratedPuzzle) => {
+    loadBoard(puzzle.givens, `Generated a ${puzzle.rating.label.toLowerCase()} puzzle (seed ${puzzle.seed}).`);
+    addLibraryEntry(puzzle.givens, null);
+    setStage("play");
+  };
+
+  const playTyped = (givens: BoardValues) => {
+    loadBoard(givens, "Typed puzzle.");
+    addLibraryEntry(givens, null);
+    setStage("play");
+  };
+
+  const importPuzzle = useCallback((puzzle: ParsedPuzzle) => {
+    loadBoard(puzzle.givens, "Imported puzzle from text.");
+    if (hasProgress(puzzle)) {
+      // Entries and notes only make sense in play; skip straight there.
+      addLibraryEntry(puzzle.givens, null);
+      setGameProgress(createGameProgress(puzzle.givens, puzzle.values, puzzle.notes));
+      setStage("play");
+      return;
+    }
+    setGameId(null);
+    setStage("detect");
+  }, [addLibraryEntry, loadBoard]);
+
+  useEffect(() => {
+    // Links opened in an already-running tab only change the hash.
+    const onHashChange = () => {
+      const code = readShareCode(window.location.hash);
+      if (!code) {
+        return;
+      }
+      try {
+        const puzzle = decodeShareCode(code);
+        loadBoard(puzzle.givens, "Opened a shared puzzle.");
+        addLibraryEntry(puzzle.givens, null);
+        setGameProgress(createGameProgress(puzzle.givens, puzzle.values, puzzle.notes));
+        setStage("play");
+      } catch (linkError) {
+        setError(linkError instanceof Error ? linkError.message : "Puzzle link could not be read.");
+      }
+      window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    };
+    window.addEventListener("hashchange", onHashChange);
+    return () => {
+      window.removeEventListener("hashchange", onHashChange);
+    };
+  }, [addLibraryEntry, loadBoard]);
+
+  const importText = useCallback((text: string) => {
+    try {
+      importPuzzle(parsePuzzleText(text));
+    } catch (parseError) {
+      const reason = parseError instanceof Error ? parseError.message : "Unrecognized format.";
+      setError(`Could not read a puzzle from that text. ${reason}`);
+    }
+  }, [importPuzzle]);
+
+  const handleUpload = useCallback(async (file: File | null) => {
+    if (file && isTextPuzzleFile(file)) {
+      importText(await file.text());
+      return;
+    }
+    await handleFile(file);
+  }, [handleFile, importText]);
+
+  const resumeGame = (entry: LibraryEntry) => {
+    setGameId(entry.id);
+    setRecognizedValues([...entry.givens]);
+    setGameProgress(entry.progress);
+    setPreviewUrl(entry.thumbnailUrl);
+    setThumbnailUrl(entry.thumbnailUrl);
+    setRecognizedCells([]);
+    setCorrections([]);
+    setSelectedDetectedCell(null);
+    setImportFile(null);
+    setOriginalImageUrl(null);
+    setManualCorners([]);
+    setError(null);
+    setMessage("Restored your saved puzzle.");
+    setStage("play");
+  };
+
+  const duplicateGame = (entry: LibraryEntry) => {
+    const now = Date.now();
+    setLibrary((prev) => {
+      const copy: LibraryEntry = { ...entry, id: createGameId(), createdAt: now, updatedAt: now };
+      const at = prev.findIndex((item) => item.id === entry.id);
+      return [...prev.slice(0, at + 1), copy, ...prev.slice(at + 1)];
+    });
+  };
+
+  const deleteGame = (entry: LibraryEntry) => {
+    setLibrary((prev) => prev.filter((item) => item.id !== entry.id));
+    if (entry.id === gameId) {
+      setGameId(null);
+      setGameProgress(null);
+    }
+  };
+
   useEffect(() => {
     const onPaste = async (event: ClipboardEvent) => {
       if (stage !== "upload") {
         return;
       }
-      const imageFile = Array.from(event.clipboardData?.files ?? []).find((file) =>
-        file.type.startsWith("image/")
+      const pastedFile = Array.from(event.clipboardData?.files ?? []).find(
+        (file) => file.type.startsWith("image/") || isTextPuzzleFile(file)
       );
-      if (!imageFile) {
+      if (pastedFile) {
+        event.preventDefault();
+        await handleUpload(pastedFile);
         return;
       }
-      event.preventDefault();
-      await handleFile(imageFile);
+      const text = event.clipboardData?.getData("text/plain") ?? "";
+      if (text.trim()) {
+        event.preventDefault();
+        importText(text);
+      }
     };
 
     window.addEventListener("paste", onPaste);
     return () => {
       window.removeEventListener("paste", onPaste);
     };
-  }, [handleFile, stage]);
+  }, [handleUpload, importText, stage]);
 
   useEffect(() => {
     if (!importFile || stage !== "detect") {
@@ -159,6 +642,19 @@ export default function PuzzleSnapApp() {
     setManualCorners((prev) => [...prev, { x: Math.max(0, Math.min(1, x)), y: Math.max(0, Math.min(1, y)) }]);
   };
 
+  const isLowConfidence = (index: number): boolean => {
+    const cell = recognizedCells[index];
+    return (
+      cell !== undefined &&
+      cell.digit !== null &&
+      cell.digit === recognizedValues[index] &&
+      cell.confidence < LOW_CONFIDENCE
+    );
+  };
+  // Puzzles from text or the generator have no photo, so the grid is edited on a blank board.
+  const hasEditableGrid = previewUrl !== null || importFile === null;
+  const selectedCellDetails = selectedDetectedCell !== null ? recognizedCells[selectedDetectedCell] : undefined;
+
   const setDetectedDigit = (digit: number | null) => {
     if (selectedDetectedCell === null) {
       return;
@@ -168,12 +664,29 @@ export default function PuzzleSnapApp() {
       next[selectedDetectedCell] = digit;
       return next;
     });
+    setPaperEntries((prev) => prev.map((value, index) => (index === selectedDetectedCell ? null : value)));
+    setPaperNotes((prev) => prev.map((mask, index) => (index === selectedDetectedCell ? 0 : mask)));
   };
 
-  if (stage === "play") {
+  // Telling entries from givens can go wrong either way, so a digit can be moved between them.
+  const togglePlayerEntry = () => {
+    if (selectedDetectedCell === null) {
+      return;
+    }
+    const given = recognizedValues[selectedDetectedCell];
+    const entry = paperEntries[selectedDetectedCell];
+    setRecognizedValues((prev) => prev.map((value, index) => (index === selectedDetectedCell ? entry : value)));
+    setPaperEntries((prev) => prev.map((value, index) => (index === selectedDetectedCell ? given : value)));
+  };
+
+  if (activeStage === "play") {
     return (
       <SudokuApp
+        key={gameId ?? "unsaved"}
         initialValues={recognizedValues}
+        initialProgress={gameProgress}
+        onProgressChange={handleProgressChange}
+        onImport={importPuzzle}
         onBack={() => {
           setStage("detect");
         }}
@@ -181,7 +694,28 @@ export default function PuzzleSnapApp() {
     );
   }
 
-  if (stage === "upload") {
+  if (activeStage === "library") {
+    return (
+      <SavedGameLibrary
+        entries={library}
+        activeId={gameId}
+        onResume={resumeGame}
+        onDuplicate={duplicateGame}
+        onDelete={deleteGame}
+        onBack={() => setStage("upload")}
+      />
+    );
+  }
+
+  if (activeStage === "type") {
+    return <PuzzleEditor onStart={playTyped} onBack={() => setStage("upload")} />;
+  }
+
+  if (activeStage === "generate") {
+    return <PuzzleGenerator onGenerate={playGenerated} onBack={() => setStage("upload")} />;
+  }
+
+  if (activeStage === "upload") {
     return (
       <div className="page-shell upload-stage-shell">
         <main className="card setup-card upload-card">
@@ -209,11 +743,11 @@ export default function PuzzleSnapApp() {
               event.preventDefault();
               setIsDragging(false);
               const file = event.dataTransfer.files?.[0] ?? null;
-              await handleFile(file);
+              await handleUpload(file);
             }}
           >
             <h2>Upload image</h2>
-            <p>Take a picture of your puzzle or upload a photo of it</p>
+            <p>Take a picture of your puzzle or upload a photo of it. You can also paste or drop a puzzle as text.</p>
             <div className="import-actions">
               <button type="button" className="key" onClick={() => fileInputRef.current?.click()}>
                 <span className="key-content">
@@ -227,9 +761,27 @@ export default function PuzzleSnapApp() {
                   Camera
                 </span>
               </button>
+              <button type="button" className="key" onClick={() => setStage("type")}>
+                <span className="key-content">
+                  <Keyboard size={16} aria-hidden />
+                  Type a puzzle
+                </span>
+              </button>
+              <button type="button" className="key" onClick={() => setStage("generate")}>
+                <span className="key-content">
+                  <Sparkles size={16} aria-hidden />
+                  New puzzle
+                </span>
+              </button>
+              <button type="button" className="key" onClick={() => setStage("library")}>
+                <span className="key-content">
+                  <LibraryBig size={16} aria-hidden />
+                  Saved games{libraryLoaded && library.length > 0 ? ` (${library.length})` : ""}
+                </span>
+              </button>
             </div>
-            <input ref={fileInputRef} hidden type="file" accept="image/*" onChange={async (event: ChangeEvent<HTMLInputElement>) => {
-              await handleFile(event.target.files?.[0] ?? null);
+            <input ref={fileInputRef} hidden type="file" accept="image/*,.txt,.sdk,.csv" onChange={async (event: ChangeEvent<HTMLInputElement>) => {
+              await handleUpload(event.target.files?.[0] ?? null);
               event.target.value = "";
             }} />
             <input
@@ -243,6 +795,7 @@ export default function PuzzleSnapApp() {
                 event.target.value = "";
               }}
             />
+            {error && <p className="ocr-error">{error}</p>}
           </section>
         </main>
       </div>
@@ -269,10 +822,13 @@ export default function PuzzleSnapApp() {
                   setStage("upload");
                   setManualCorners([]);
                   setPreviewUrl(null);
+                  setRecognizedCells([]);
+                  setPaperEntries(createEmptyValues());
+                  setPaperNotes(createEmptyNotes());
+                  setCorrections([]);
                   setError(null);
                   setMessage("Upload a Sudoku image to start.");
                 }}
-                disabled={busy}
                 aria-label="Back to upload"
                 title="Back"
               >
@@ -281,7 +837,7 @@ export default function PuzzleSnapApp() {
               <button
                 type="button"
                 className="icon-only-button play-fab"
-                onClick={() => setStage("play")}
+                onClick={startPlay}
                 disabled={busy || !recognizedValues.some((value) => value !== null)}
                 aria-label="Play puzzle"
                 title="Play"
@@ -302,12 +858,42 @@ export default function PuzzleSnapApp() {
               </div>
             </div>
           )}
+          {importFile && DIGIT_RECOGNIZERS.length > 1 && (
+            <label className="recognizer-picker">
+              Digit reader
+              <select
+                value={digitRecognizer}
+                onChange={(event) => changeRecognizer(event.target.value as DigitRecognizerId)}
+              >
+                {DIGIT_RECOGNIZERS.map((id) => (
+                  <option key={id} value={id}>
+                    {DIGIT_RECOGNIZER_NAMES[id]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
           <p>{message}</p>
           {error && <p className="ocr-error">{error}</p>}
+          {corrections.length > 0 && (
+            <ul className="correction-list">
+              {corrections.map((correction) => (
+                <li key={correction.index}>
+                  <strong>{describeCell(correction.index)}</strong> {correction.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+          {puzzleCheck && (
+            <p className={`puzzle-check puzzle-check-${puzzleCheck.status}`}>{describePuzzleCheck(puzzleCheck)}</p>
+          )}
+          {difficulty && <p className="difficulty-line">Difficulty: {describeDifficulty(difficulty)}</p>}
 
-          {previewUrl && (
-            <div className="preview-wrap detection-preview-wrap">
-              <NextImage src={previewUrl} alt="Recognition preview" width={540} height={540} className="preview-image" />
+          {hasEditableGrid && (
+            <div className={`preview-wrap detection-preview-wrap ${previewUrl ? "" : "detection-preview-blank"}`}>
+              {previewUrl && (
+                <NextImage src={previewUrl} alt="Recognition preview" width={540} height={540} className="preview-image" />
+              )}
               {busy && (
                 <div className="detection-progress-overlay" aria-live="polite">
                   <div className="detection-progress-card">
@@ -318,13 +904,18 @@ export default function PuzzleSnapApp() {
                   </div>
                 </div>
               )}
-              {showOverlay && (
+              {(showOverlay || !previewUrl) && (
                 <div className="detection-grid-overlay" role="grid" aria-label="Recognized grid overlay">
                   {recognizedValues.map((value, index) => {
                     const row = Math.floor(index / 9);
                     const col = index % 9;
                     const classes = ["detection-cell"];
                     if (selectedDetectedCell === index) classes.push("detection-cell-selected");
+                    if (isLowConfidence(index)) classes.push("detection-cell-low-confidence");
+                    if (correctedCells.has(index)) classes.push("detection-cell-corrected");
+                    if (culpritCells.has(index)) classes.push("detection-cell-culprit");
+                    const entry = value === null ? paperEntries[index] : null;
+                    if (entry !== null) classes.push("detection-cell-entry");
                     if ((col + 1) % 3 === 0 && col < 8) classes.push("detection-cell-box-right");
                     if ((row + 1) % 3 === 0 && row < 8) classes.push("detection-cell-box-bottom");
                     return (
@@ -333,8 +924,23 @@ export default function PuzzleSnapApp() {
                         type="button"
                         className={classes.join(" ")}
                         onClick={() => setSelectedDetectedCell(index)}
+                        title={
+                          recognizedCells[index]?.digit
+                            ? `${recognizedCells[index].digit} · ${Math.round(recognizedCells[index].confidence)}% confidence`
+                            : undefined
+                        }
                       >
-                        {value ?? ""}
+                        {value ??
+                          entry ??
+                          (paperNotes[index] !== 0 && (
+                            <span className="notes-grid">
+                              {DIGITS.map((digit) => (
+                                <span key={digit} className="note-slot">
+                                  {hasNote(paperNotes[index], digit) ? digit : ""}
+                                </span>
+                              ))}
+                            </span>
+                          ))}
                       </button>
                     );
                   })}
@@ -343,9 +949,42 @@ export default function PuzzleSnapApp() {
             </div>
           )}
 
-          {previewUrl && (
+          {selectedCellDetails && (
+            <div className="cell-details">
+              <NextImage
+                src={selectedCellDetails.cropUrl}
+                alt={`Crop of ${describeCell(selectedCellDetails.index)}`}
+                width={72}
+                height={72}
+                className="cell-details-crop"
+                unoptimized
+              />
+              <div>
+                <strong>{describeCell(selectedCellDetails.index)}</strong>
+                <p>
+                  {selectedCellDetails.digit !== null
+                    ? `Read ${selectedCellDetails.digit} as ${selectedCellDetails.kind === "entry" ? "a player entry" : "a given"} at ${Math.round(selectedCellDetails.confidence)}% confidence.`
+                    : selectedCellDetails.notes !== 0
+                      ? `Read pencil marks ${digitsFromMask(selectedCellDetails.notes).join(", ")}.`
+                      : "Read as empty."}
+                  {selectedCellDetails.alternatives.length > 0 &&
+                    ` Runner-ups: ${selectedCellDetails.alternatives
+                      .map((candidate) => `${candidate.digit} (${Math.round(candidate.confidence)}%)`)
+                      .join(", ")}.`}
+                </p>
+                <p>
+                  Ink {Math.round(selectedCellDetails.inkStats.inkRatio * 100)}%, box{" "}
+                  {selectedCellDetails.inkStats.bboxWidth}×{selectedCellDetails.inkStats.bboxHeight}
+                  {selectedCellDetails.inkStats.touchesEdge ? ", touches edge" : ""}
+                  {selectedCellDetails.usedFallback ? ", fallback pass used" : ""}.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {hasEditableGrid && (
             <div className="import-actions">
-              {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((digit) => (
+              {DIGITS.map((digit) => (
                 <button
                   key={digit}
                   type="button"
@@ -366,17 +1005,42 @@ export default function PuzzleSnapApp() {
               >
                 <Trash2 size={16} aria-hidden />
               </button>
-              <button
-                type="button"
-                className="key"
-                onClick={() => setShowOverlay((prev) => !prev)}
-                aria-label={showOverlay ? "Hide overlay" : "Show overlay"}
-                title={showOverlay ? "Hide overlay" : "Show overlay"}
-              >
-                {showOverlay ? <EyeOff size={16} aria-hidden /> : <Eye size={16} aria-hidden />}
-              </button>
+              {previewUrl && (
+                <button
+                  type="button"
+                  className={`key ${
+                    selectedDetectedCell !== null && paperEntries[selectedDetectedCell] !== null ? "key-note-on" : ""
+                  }`}
+                  onClick={togglePlayerEntry}
+                  disabled={
+                    selectedDetectedCell === null ||
+                    (recognizedValues[selectedDetectedCell] === null && paperEntries[selectedDetectedCell] === null)
+                  }
+                  aria-label="Toggle player entry"
+                  title="Player entry (editable in play) or given"
+                >
+                  <PenLine size={16} aria-hidden />
+                </button>
+              )}
+              {previewUrl && (
+                <button
+                  type="button"
+                  className="key"
+                  onClick={() => setShowOverlay((prev) => !prev)}
+                  aria-label={showOverlay ? "Hide overlay" : "Show overlay"}
+                  title={showOverlay ? "Hide overlay" : "Show overlay"}
+                >
+                  {showOverlay ? <EyeOff size={16} aria-hidden /> : <Eye size={16} aria-hidden />}
+                </button>
+              )}
             </div>
           )}
+
+          <PuzzleTextTransfer
+            puzzle={{ givens: recognizedValues, values: recognizedValues, notes: createEmptyNotes() }}
+            allowProgress={false}
+            onImport={importPuzzle}
+          />
         </section>
 
         {originalImageUrl && (
@@ -0,0 +1,152 @@
+"use client";
+
+import { ClipboardCopy, Download, FileText, Link2, Upload } from "lucide-react";
+import { ChangeEvent, useRef, useState } from "react";
+import {
+  PUZZLE_FORMATS,
+  PUZZLE_FORMAT_EXTENSIONS,
+  PUZZLE_FORMAT_NAMES,
+  formatPuzzle,
+  parsePuzzleText,
+  type ParsedPuzzle,
+  type PuzzleDocument,
+  type PuzzleFormat
+} from "@/lib/sudoku-formats";
+import { createShareUrl } from "@/lib/sudoku-share";
+
+type PuzzleTextTransferProps = {
+  puzzle: PuzzleDocument;
+  allowProgress: boolean;
+  onImport: (puzzle: ParsedPuzzle) => void;
+};
+
+export default function PuzzleTextTransfer({ puzzle, allowProgress, onImport }: PuzzleTextTransferProps) {
+  const [format, setFormat] = useState<PuzzleFormat>("line");
+  const [includeProgress, setIncludeProgress] = useState(allowProgress);
+  const [importText, setImportText] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const exported = formatPuzzle(puzzle, format, allowProgress && includeProgress);
+
+  const importFrom = (text: string) => {
+    try {
+      const parsed = parsePuzzleText(text);
+      setStatus(`Imported ${PUZZLE_FORMAT_NAMES[parsed.format]}.`);
+      onImport(parsed);
+    } catch (parseError) {
+      setStatus(parseError instanceof Error ? parseError.message : "Could not read that puzzle.");
+    }
+  };
+
+  const copyText = async (text: string, done: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setStatus(done);
+    } catch {
+      setStatus(`Clipboard unavailable. ${text}`);
+    }
+  };
+
+  const downloadExport = () => {
+    const url = URL.createObjectURL(new Blob([exported], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `puzzle.${PUZZLE_FORMAT_EXTENSIONS[format]}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const onFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      importFrom(await file.text());
+    }
+  };
+
+  return (
+    <details className="history-panel transfer-panel">
+      <summary>
+        <FileText size={16} aria-hidden />
+        Import / export text
+      </summary>
+      <div className="transfer-body">
+        <label>
+          Format
+          <select value={format} onChange={(event) => setFormat(event.target.value as PuzzleFormat)}>
+            {PUZZLE_FORMATS.map((option) => (
+              <option key={option} value={option}>
+                {PUZZLE_FORMAT_NAMES[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {allowProgress && (
+          <label className="transfer-check">
+            <input
+              type="checkbox"
+              checked={includeProgress}
+              onChange={(event) => setIncludeProgress(event.target.checked)}
+            />
+            Include entries{format === "candidates" ? " and notes" : ""}
+          </label>
+        )}
+        <textarea readOnly value={exported} rows={format === "line" ? 2 : 12} spellCheck={false} />
+        <div className="import-actions">
+          <button type="button" className="key" onClick={() => void copyText(exported, "Copied to clipboard.")}>
+            <span className="key-content">
+              <ClipboardCopy size={16} aria-hidden />
+              Copy
+            </span>
+          </button>
+          <button type="button" className="key" onClick={downloadExport}>
+            <span className="key-content">
+              <Download size={16} aria-hidden />
+              Download
+            </span>
+          </button>
+          <button
+            type="button"
+            className="key"
+            onClick={() =>
+              void copyText(createShareUrl(puzzle, allowProgress && includeProgress), "Link copied to clipboard.")
+            }
+          >
+            <span className="key-content">
+              <Link2 size={16} aria-hidden />
+              Copy link
+            </span>
+          </button>
+        </div>
+
+        <label>
+          Paste a puzzle
+          <textarea
+            value={importText}
+            onChange={(event) => setImportText(event.target.value)}
+            rows={4}
+            spellCheck={false}
+            placeholder="81 characters, a grid, .sdk, CSV or a candidates grid"
+          />
+        </label>
+        <div className="import-actions">
+          <button type="button" className="key" onClick={() => importFrom(importText)} disabled={!importText.trim()}>
+            <span className="key-content">
+              <Upload size={16} aria-hidden />
+              Import text
+            </span>
+          </button>
+          <button type="button" className="key" onClick={() => fileInputRef.current?.click()}>
+            <span className="key-content">
+              <FileText size={16} aria-hidden />
+              Open file
+            </span>
+          </button>
+        </div>
+        <input ref={fileInputRef} hidden type="file" accept=".txt,.sdk,.csv,text/plain,text/csv" onChange={onFileChange} />
+        {status && <p>{status}</p>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import NextImage from "next/image";
+import { ArrowLeft, CircleCheck, Copy, Grid3x3, Play, Trash2 } from "lucide-react";
+import { useMemo } from "react";
+import { type LibraryEntry } from "@/lib/sudoku-storage";
+
+type SavedGameLibraryProps = {
+  entries: LibraryEntry[];
+  activeId: string | null;
+  onResume: (entry: LibraryEntry) => void;
+  onDuplicate: (entry: LibraryEntry) => void;
+  onDelete: (entry: LibraryEntry) => void;
+  onBack: () => void;
+};
+
+function describeProgress(entry: LibraryEntry): string {
+  if (entry.completed) {
+    return "Completed";
+  }
+  if (!entry.progress) {
+    return "Not started";
+  }
+  const open = entry.givens.filter((value) => value === null).length;
+  const filled = entry.progress.values.filter((value, index) => value !== null && entry.givens[index] === null).length;
+  return `In progress · ${filled}/${open} cells filled`;
+}
+
+export default function SavedGameLibrary({
+  entries,
+  activeId,
+  onResume,
+  onDuplicate,
+  onDelete,
+  onBack
+}: SavedGameLibraryProps) {
+  const sorted = useMemo(() => [...entries].sort((a, b) => b.updatedAt - a.updatedAt), [entries]);
+
+  return (
+    <div className="page-shell upload-stage-shell">
+      <main className="card setup-card upload-card">
+        <div className="title-block">
+          <div className="title-row">
+            <div className="title-main">
+              <NextImage src="/logo.png" alt="PuzzleSnap logo" width={72} height={72} className="app-logo" />
+              <div className="title-text">
+                <h1>PuzzleSnap</h1>
+                <span className="title-chip">Saved games</span>
+              </div>
+            </div>
+            <button
+              type="button"
+              className="icon-only-button back-button"
+              onClick={onBack}
+              aria-label="Back to upload"
+              title="Back"
+            >
+              <ArrowLeft size={18} aria-hidden />
+            </button>
+          </div>
+          <p>Pick up any puzzle where you left off.</p>
+        </div>
+
+        <section className="setup-type-panel">
+          {sorted.length === 0 && <p>No saved games yet. Puzzles you play are added here automatically.</p>}
+          <div className="library-list">
+            {sorted.map((entry) => (
+              <div key={entry.id} className={`library-item ${entry.id === activeId ? "library-item-active" : ""}`}>
+                {entry.thumbnailUrl ? (
+                  <NextImage
+                    src={entry.thumbnailUrl}
+                    alt="Puzzle thumbnail"
+                    width={72}
+                    height={72}
+                    className="library-thumbnail"
+                    unoptimized
+                  />
+                ) : (
+                  <span className="library-thumbnail library-thumbnail-empty">
+                    <Grid3x3 size={28} aria-hidden />
+                  </span>
+                )}
+                <div className="library-meta">
+                  <strong>{new Date(entry.createdAt).toLocaleString()}</strong>
+                  <p className={entry.completed ? "library-status-complete" : undefined}>
+                    {entry.completed && <CircleCheck size={14} aria-hidden />} {describeProgress(entry)}
+                  </p>
+                </div>
+                <div className="import-actions">
+                  <button type="button" className="key" onClick={() => onResume(entry)}>
+                    <span className="key-content">
+                      <Play size={16} aria-hidden />
+                      Resume
+                    </span>
+                  </button>
+                  <button
+                    type="button"
+                    className="key"
+                    onClick={() => onDuplicate(entry)}
+                    aria-label="Duplicate game"
+                    title="Duplicate"
+                  >
+                    <Copy size={16} aria-hidden />
+                  </button>
+                  <button
+                    type="button"
+                    className="key"
+                    onClick={() => onDelete(entry)}
+                    aria-label="Delete game"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} aria-hidden />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Registers public/sw.js, which keeps the app, the recognition engines and the
+// language data cached for offline use. Skipped in development so edits are never stale.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) {
+      return;
+    }
+    navigator.serviceWorker.register("/sw.js").catch(() => {
+      // Offline support is a bonus; the app works the same without it.
+    });
+  }, []);
+
+  return null;
+}
@@ -1,8 +1,28 @@
 "use client";
 
 import NextImage from "next/image";
-import { Eraser, Monitor, Moon, PenLine, RotateCcw, Sun, Undo2 } from "lucide-react";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Check,
+  CheckCheck,
+  Eraser,
+  Eye,
+  Grid3x3,
+  History,
+  Lightbulb,
+  Monitor,
+  Moon,
+  PenLine,
+  RefreshCcwDot,
+  RotateCcw,
+  Sun,
+  SquareCheck,
+  Timer,
+  Redo2,
+  Undo2,
+  X
+} from "lucide-react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import PuzzleTextTransfer from "@/components/PuzzleTextTransfer";
 import {
   bitForDigit,
   computeBlockingMask,
@@ -10,26 +30,54 @@ import {
   computeConflictMask,
   createEmptyNotes,
   createEmptyValues,
+  describeCell,
+  digitsFromMask,
   getPeers,
   hasNote,
+  isBoardSolved,
   toRowCol,
   type BoardValues
 } from "@/lib/sudoku";
+import { describeDifficulty, rateDifficulty } from "@/lib/sudoku-difficulty";
+import { type ParsedPuzzle } from "@/lib/sudoku-formats";
+import { computeCandidateMasks, solveSudoku } from "@/lib/sudoku-solver";
+import {
+  averageSolveMs,
+  createAssistTally,
+  loadStats,
+  recordSolve,
+  type AssistTally,
+  type SolveStats,
+  type GameProgress,
+  type GameSnapshot,
+  type MoveRecord
+} from "@/lib/sudoku-storage";
+import { applyStep, computeStepCandidates, findNextStep, type LogicalStep } from "@/lib/sudoku-techniques";
+
+type Snapshot = GameSnapshot;
 
-type Snapshot = {
+type ThemePreference = "light" | "dark" | "system";
+
+type HintState = {
+  step: LogicalStep | null;
+  message: string;
   values: BoardValues;
-  notes: number[];
 };
 
-type ThemePreference = "light" | "dark" | "system";
-
 type SudokuAppProps = {
   initialValues?: BoardValues | null;
+  initialProgress?: GameProgress | null;
+  onProgressChange?: (progress: GameProgress) => void;
+  onImport?: (puzzle: ParsedPuzzle) => void;
   onBack?: () => void;
 };
 
 const THEME_STORAGE_KEY = "sudokupaste.theme.v1";
+const AUTO_CANDIDATES_STORAGE_KEY = "sudokupaste.autoCandidates.v1";
 const DIGITS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+// Saving rewrites the session and the library, so the running clock is only saved this often
+// (and on every move, and when the tab is hidden) rather than on each tick.
+const CLOCK_SAVE_INTERVAL_MS = 15_000;
 
 function sanitizeInitial(values?: BoardValues | null): BoardValues {
   if (!values || values.length !== 81) {
@@ -39,10 +87,79 @@ function sanitizeInitial(values?: BoardValues | null): BoardValues {
 }
 
 function cloneSnapshot(snapshot: Snapshot): Snapshot {
-  return {
-    values: [...snapshot.values],
-    notes: [...snapshot.notes]
-  };
+  const clone: Snapshot = { ...snapshot, values: [...snapshot.values], notes: [...snapshot.notes] };
+  if (snapshot.marks) {
+    clone.marks = [...snapshot.marks];
+  }
+  return clone;
+}
+
+function describeMove(move: MoveRecord | undefined): string {
+  if (!move) {
+    return "Start";
+  }
+  if (move.kind === "action" || move.index === null) {
+    return move.label ?? "Board change";
+  }
+  const cell = describeCell(move.index);
+  const prefix = move.label ? `${move.label} ` : "";
+  if (move.kind === "note") {
+    const from = digitsFromMask(move.from ?? 0).join("") || "none";
+    const to = digitsFromMask(move.to ?? 0).join("") || "none";
+    return `${prefix}${cell} notes ${from} → ${to}`;
+  }
+  return `${prefix}${cell} ${move.from ?? "·"} → ${move.to ?? "·"}`;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+// A step that only eliminates candidates from cells without pencil marks has nothing to apply.
+function stepChangesBoard(step: LogicalStep, notes: number[]): boolean {
+  return (
+    step.placements.length > 0 ||
+    step.eliminations.some(({ index, digit }) => (notes[index] & bitForDigit(digit)) !== 0)
+  );
+}
+
+// Keys typed into a form field belong to it, not to the board.
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement ||
+      target.isContentEditable)
+  );
+}
+
+function describeAssists(assists: AssistTally): string {
+  const parts = [
+    assists.checks > 0 ? `${assists.checks} check${assists.checks === 1 ? "" : "s"}` : null,
+    assists.reveals > 0 ? `${assists.reveals} cell${assists.reveals === 1 ? "" : "s"} revealed` : null,
+    assists.hints > 0 ? `${assists.hints} hint${assists.hints === 1 ? "" : "s"}` : null
+  ].filter((part): part is string => part !== null);
+  return parts.length > 0 ? `Assistance used: ${parts.join(" · ")}.` : "Solved without assistance.";
+}
+
+function restoreCandidates(nextValues: BoardValues, nextNotes: number[], index: number, removed: number | null): void {
+  const legal = computeCandidateMasks(nextValues);
+  if (nextValues[index] === null) {
+    nextNotes[index] = legal[index];
+  }
+  if (removed === null) {
+    return;
+  }
+  for (const peer of getPeers(index)) {
+    if (nextValues[peer] === null && hasNote(legal[peer], removed)) {
+      nextNotes[peer] |= bitForDigit(removed);
+    }
+  }
 }
 
 function nextFromMove(
@@ -51,7 +168,8 @@ function nextFromMove(
   startValues: BoardValues,
   selected: number | null,
   noteMode: boolean,
-  digit: number | null
+  digit: number | null,
+  autoCandidates = false
 ): Snapshot {
   if (selected === null || startValues[selected] !== null) {
     return { values, notes };
@@ -59,36 +177,65 @@ function nextFromMove(
 
   const nextValues = [...values];
   const nextNotes = [...notes];
+  const previous = values[selected];
 
   if (digit === null) {
     nextValues[selected] = null;
     nextNotes[selected] = 0;
-    return { values: nextValues, notes: nextNotes };
+    if (autoCandidates) {
+      restoreCandidates(nextValues, nextNotes, selected, previous);
+    }
+    const move: MoveRecord =
+      previous !== null
+        ? { kind: "value", index: selected, from: previous, to: null }
+        : { kind: "note", index: selected, from: notes[selected], to: nextNotes[selected] };
+    return { values: nextValues, notes: nextNotes, move };
   }
 
   if (noteMode && nextValues[selected] === null) {
     nextNotes[selected] ^= bitForDigit(digit);
-    return { values: nextValues, notes: nextNotes };
+    return {
+      values: nextValues,
+      notes: nextNotes,
+      move: { kind: "note", index: selected, from: notes[selected], to: nextNotes[selected] }
+    };
   }
 
   nextValues[selected] = digit;
   nextNotes[selected] = 0;
+  if (autoCandidates && previous !== null && previous !== digit) {
+    restoreCandidates(nextValues, nextNotes, selected, previous);
+  }
 
   const peers = getPeers(selected);
   for (const peer of peers) {
     nextNotes[peer] &= ~bitForDigit(digit);
   }
 
-  return { values: nextValues, notes: nextNotes };
+  return { values: nextValues, notes: nextNotes, move: { kind: "value", index: selected, from: previous, to: digit } };
 }
 
-export default function SudokuApp({ initialValues = null, onBack }: SudokuAppProps) {
+export default function SudokuApp({
+  initialValues = null,
+  initialProgress = null,
+  onProgressChange,
+  onImport,
+  onBack
+}: SudokuAppProps) {
   const initial = useMemo(() => sanitizeInitial(initialValues), [initialValues]);
-  const [startValues] = useState<BoardValues>(initial);
-  const [values, setValues] = useState<BoardValues>(initial);
-  const [notes, setNotes] = useState<number[]>(() => createEmptyNotes());
-  const [selected, setSelected] = useState<number | null>(0);
+  const [startValues] = useState<BoardValues>(() => initialProgress?.startValues ?? initial);
+  const [values, setValues] = useState<BoardValues>(() => initialProgress?.values ?? initial);
+  const [notes, setNotes] = useState<number[]>(() => initialProgress?.notes ?? createEmptyNotes());
+  const [selected, setSelected] = useState<number | null>(() =>
+    initialProgress ? initialProgress.selected : 0
+  );
   const [noteMode, setNoteMode] = useState(false);
+  const [autoCandidates, setAutoCandidates] = useState(() => {
+    if (typeof window === "undefined") {
+      return false;
+    }
+    return window.localStorage.getItem(AUTO_CANDIDATES_STORAGE_KEY) === "on";
+  });
   const [themePreference, setThemePreference] = useState<ThemePreference>(() => {
     if (typeof window === "undefined") {
       return "system";
@@ -97,8 +244,111 @@ export default function SudokuApp({ initialValues = null, onBack }: SudokuAppPro
     return raw === "light" || raw === "dark" || raw === "system" ? raw : "system";
   });
 
-  const [history, setHistory] = useState<Snapshot[]>([{ values: [...initial], notes: createEmptyNotes() }]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  const [history, setHistory] = useState<Snapshot[]>(
+    () => initialProgress?.history ?? [{ values: [...initial], notes: createEmptyNotes() }]
+  );
+  const [historyIndex, setHistoryIndex] = useState(() => initialProgress?.historyIndex ?? 0);
+  const [assists, setAssists] = useState<AssistTally>(() => initialProgress?.assists ?? createAssistTally());
+  const [elapsedMs, setElapsedMs] = useState(() => initialProgress?.elapsedMs ?? 0);
+  const elapsedRef = useRef(initialProgress?.elapsedMs ?? 0);
+  const [savedClockMs, setSavedClockMs] = useState(() => initialProgress?.elapsedMs ?? 0);
+  const lastReportRef = useRef<{ progress: GameProgress; report: (progress: GameProgress) => void } | null>(null);
+  const [mistakes, setMistakes] = useState(() => initialProgress?.mistakes ?? 0);
+  const [undos, setUndos] = useState(() => initialProgress?.undos ?? 0);
+  const [completedAt, setCompletedAt] = useState<number | null>(() => initialProgress?.completedAt ?? null);
+  const [solveStats, setSolveStats] = useState<SolveStats | null>(() =>
+    typeof window !== "undefined" && initialProgress?.completedAt ? loadStats() : null
+  );
+  const [hint, setHint] = useState<HintState | null>(null);
+  // Checking and revealing need "the" solution, so they stay off for puzzles without a unique one.
+  const solution = useMemo(() => {
+    const result = solveSudoku(startValues);
+    return result.solutionCount === 1 ? result.solution : null;
+  }, [startValues]);
+  const difficulty = useMemo(() => rateDifficulty(startValues), [startValues]);
+  // A hint only applies to the board it was computed for; any move or undo retires it.
+  const activeHint = hint && hint.values === values ? hint : null;
+
+  // Reads the clock from elapsedRef so that ticks alone do not save; savedClockMs moves on
+  // at the save interval to include the time.
+  useEffect(() => {
+    if (!onProgressChange) {
+      return;
+    }
+    const progress: GameProgress = {
+      startValues,
+      values,
+      notes,
+      history,
+      historyIndex,
+      selected,
+      assists,
+      elapsedMs: elapsedRef.current,
+      mistakes,
+      undos,
+      completedAt
+    };
+    lastReportRef.current = { progress, report: onProgressChange };
+    onProgressChange(progress);
+  }, [
+    assists,
+    completedAt,
+    history,
+    historyIndex,
+    mistakes,
+    notes,
+    onProgressChange,
+    savedClockMs,
+    selected,
+    startValues,
+    undos,
+    values
+  ]);
+
+  // Saves from before completion tracking can hold a solved board without a completedAt.
+  const locked = completedAt !== null || isBoardSolved(values);
+
+  useEffect(() => {
+    if (locked) {
+      return;
+    }
+    // Only time spent with the tab visible counts toward the clock.
+    let lastTick = performance.now();
+    let lastSave = elapsedRef.current;
+    const saveClock = () => {
+      lastSave = elapsedRef.current;
+      setSavedClockMs(lastSave);
+    };
+    const onVisibilityChange = () => {
+      lastTick = performance.now();
+      if (document.hidden) {
+        saveClock();
+      }
+    };
+    const timer = window.setInterval(() => {
+      const now = performance.now();
+      if (!document.hidden) {
+        elapsedRef.current += now - lastTick;
+        setElapsedMs(elapsedRef.current);
+        if (elapsedRef.current - lastSave >= CLOCK_SAVE_INTERVAL_MS) {
+          saveClock();
+        }
+      }
+      lastTick = now;
+    }, 1000);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    window.addEventListener("pagehide", saveClock);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      window.removeEventListener("pagehide", saveClock);
+      // Leaving play (Back to detect) unmounts before the next save; report the time since the last one.
+      const last = lastReportRef.current;
+      if (last && last.progress.elapsedMs !== elapsedRef.current) {
+        last.report({ ...last.progress, elapsedMs: elapsedRef.current });
+      }
+    };
+  }, [locked]);
 
   useEffect(() => {
     window.localStorage.setItem(THEME_STORAGE_KEY, themePreference);
@@ -119,9 +369,22 @@ export default function SudokuApp({ initialValues = null, onBack }: SudokuAppPro
 
   const completed = useMemo(() => computeCompletedDigits(values), [values]);
   const conflictMask = useMemo(() => computeConflictMask(values), [values]);
+  const checkedWrong = useMemo(() => new Set(history[historyIndex]?.marks ?? []), [history, historyIndex]);
+  const difficultyStats = difficulty && solveStats ? solveStats[difficulty.label] : null;
+  const averageMs = difficultyStats ? averageSolveMs(difficultyStats) : null;
   const ThemeIcon = themePreference === "light" ? Sun : themePreference === "dark" ? Moon : Monitor;
 
   const selectedValue = selected !== null ? values[selected] : null;
+  const hintCells = useMemo(() => new Set(activeHint?.step?.cells ?? []), [activeHint]);
+  const hintUnitCells = useMemo(
+    () => new Set(activeHint?.step?.units.flatMap((unit) => unit.cells) ?? []),
+    [activeHint]
+  );
+  const hintEliminationCells = useMemo(
+    () => new Set(activeHint?.step?.eliminations.map((elimination) => elimination.index) ?? []),
+    [activeHint]
+  );
+
   const blockingMask = useMemo(() => {
     if (selectedValue === null) {
       return Array<boolean>(81).fill(false);
@@ -130,36 +393,222 @@ export default function SudokuApp({ initialValues = null, onBack }: SudokuAppPro
   }, [selectedValue, values]);
 
   const commitSnapshot = useCallback(
-    (snapshot: Snapshot) => {
+    (snapshot: Snapshot, revealed = 0) => {
+      if (completedAt === null && isBoardSolved(snapshot.values)) {
+        setCompletedAt(Date.now());
+        if (difficulty) {
+          setSolveStats(recordSolve(difficulty.label, elapsedRef.current, assists.reveals + revealed > 0));
+        }
+      }
       setValues(snapshot.values);
       setNotes(snapshot.notes);
       setHistory((prev) => {
         const trimmed = prev.slice(0, historyIndex + 1).map(cloneSnapshot);
-        trimmed.push(cloneSnapshot(snapshot));
+        const current = trimmed[trimmed.length - 1];
+        // Check marks stay on a cell until its value changes.
+        const marks =
+          snapshot.marks ??
+          (current?.marks ?? []).filter((index) => snapshot.values[index] === current.values[index]);
+        const next = cloneSnapshot({ ...snapshot, marks });
+        if (marks.length === 0) {
+          delete next.marks;
+        }
+        trimmed.push(next);
         setHistoryIndex(trimmed.length - 1);
         return trimmed;
       });
     },
-    [historyIndex]
+    [assists.reveals, completedAt, difficulty, historyIndex]
   );
 
   const applyDigit = useCallback(
     (digit: number | null) => {
-      const snapshot = nextFromMove(values, notes, startValues, selected, noteMode, digit);
+      if (locked) {
+        return;
+      }
+      const snapshot = nextFromMove(values, notes, startValues, selected, noteMode, digit, autoCandidates);
       if (snapshot.values === values && snapshot.notes === notes) {
         return;
       }
+      if (
+        selected !== null &&
+        snapshot.values[selected] !== null &&
+        snapshot.values[selected] !== values[selected] &&
+        computeConflictMask(snapshot.values)[selected]
+      ) {
+        setMistakes((prev) => prev + 1);
+      }
       commitSnapshot(snapshot);
     },
-    [commitSnapshot, noteMode, notes, selected, startValues, values]
+    [autoCandidates, commitSnapshot, locked, noteMode, notes, selected, startValues, values]
+  );
+
+  const fillCandidates = useCallback(() => {
+    if (locked) {
+      return;
+    }
+    const candidates = computeCandidateMasks(values);
+    if (candidates.every((mask, index) => mask === notes[index])) {
+      return;
+    }
+    commitSnapshot({ values, notes: candidates, move: { kind: "action", index: null, from: null, to: null, label: "Filled notes" } });
+  }, [commitSnapshot, locked, notes, values]);
+
+  const toggleAutoCandidates = () => {
+    const next = !autoCandidates;
+    setAutoCandidates(next);
+    window.localStorage.setItem(AUTO_CANDIDATES_STORAGE_KEY, next ? "on" : "off");
+    if (next) {
+      fillCandidates();
+    }
+  };
+
+  const checkBoard = useCallback(() => {
+    if (!solution || locked) {
+      return;
+    }
+    const wrong = values.flatMap((value, index) =>
+      value !== null && startValues[index] === null && value !== solution[index] ? [index] : []
+    );
+    commitSnapshot({
+      values,
+      notes,
+      marks: wrong,
+      move: { kind: "action", index: null, from: null, to: null, label: "Checked against solution" }
+    });
+    setAssists((prev) => ({ ...prev, checks: prev.checks + 1 }));
+    const entered = values.filter((value, index) => value !== null && startValues[index] === null).length;
+    setHint({
+      step: null,
+      message:
+        wrong.length > 0
+          ? `${wrong.length} of your ${entered} entries ${wrong.length === 1 ? "does" : "do"} not match the solution.`
+          : `All ${entered} of your entries match the solution.`,
+      values
+    });
+  }, [commitSnapshot, locked, notes, solution, startValues, values]);
+
+  const revealCell = useCallback(() => {
+    if (!solution || locked || selected === null || values[selected] === solution[selected]) {
+      return;
+    }
+    const snapshot = nextFromMove(values, notes, startValues, selected, false, solution[selected], autoCandidates);
+    commitSnapshot({ ...snapshot, move: snapshot.move && { ...snapshot.move, label: "Revealed" } }, 1);
+    setAssists((prev) => ({ ...prev, reveals: prev.reveals + 1 }));
+  }, [autoCandidates, commitSnapshot, locked, notes, selected, solution, startValues, values]);
+
+  const revealPuzzle = useCallback(() => {
+    if (!solution || locked) {
+      return;
+    }
+    const revealed = solution.filter((digit, index) => values[index] !== digit).length;
+    commitSnapshot(
+      {
+        values: [...solution],
+        notes: createEmptyNotes(),
+        move: { kind: "action", index: null, from: null, to: null, label: "Revealed puzzle" }
+      },
+      revealed
+    );
+    setAssists((prev) => ({ ...prev, reveals: prev.reveals + revealed }));
+  }, [commitSnapshot, locked, solution, values]);
+
+  const requestHint = useCallback(() => {
+    if (locked) {
+      return;
+    }
+    const mistake = solution ? values.findIndex((value, index) => value !== null && value !== solution[index]) : -1;
+    if (mistake >= 0) {
+      setHint({ step: null, message: "One of your entries is wrong, so no logical step follows. Undo to an earlier position.", values });
+      return;
+    }
+    const step = findNextStep(values, computeStepCandidates(values, notes));
+    if (step) {
+      setAssists((prev) => ({ ...prev, hints: prev.hints + 1 }));
+    }
+    setHint({
+      step,
+      message: step ? step.explanation : "No step found with the supported techniques. This puzzle needs a guess here.",
+      values
+    });
+  }, [locked, notes, solution, values]);
+
+  const applyHint = useCallback(() => {
+    const step = activeHint?.step;
+    if (!step || locked || !stepChangesBoard(step, notes)) {
+      return;
+    }
+    const next = applyStep(values, computeStepCandidates(values, notes), step);
+    // Eliminations only trim pencil marks the player already wrote; empty cells stay empty.
+    const nextNotes = [...notes];
+    for (const { index, digit } of step.eliminations) {
+      nextNotes[index] &= ~bitForDigit(digit);
+    }
+    for (const { index, digit } of step.placements) {
+      nextNotes[index] = 0;
+      for (const peer of getPeers(index)) {
+        nextNotes[peer] &= ~bitForDigit(digit);
+      }
+    }
+    commitSnapshot({
+      values: next.values,
+      notes: nextNotes,
+      move: { kind: "action", index: null, from: null, to: null, label: `Hint: ${step.name}` }
+    });
+  }, [activeHint, commitSnapshot, locked, notes, values]);
+
+  const resetBoard = useCallback(() => {
+    commitSnapshot({
+      values: [...startValues],
+      notes: createEmptyNotes(),
+      move: { kind: "action", index: null, from: null, to: null, label: "Reset" }
+    });
+  }, [commitSnapshot, startValues]);
+
+  const jumpTo = useCallback(
+    (target: number) => {
+      if (locked || target < 0 || target >= history.length || target === historyIndex) {
+        return;
+      }
+      const snapshot = history[target];
+      setValues([...snapshot.values]);
+      setNotes([...snapshot.notes]);
+      setHistoryIndex(target);
+      if (target < historyIndex) {
+        setUndos((prev) => prev + 1);
+      }
+    },
+    [history, historyIndex, locked]
   );
 
+  const undo = useCallback(() => jumpTo(historyIndex - 1), [historyIndex, jumpTo]);
+  const redo = useCallback(() => jumpTo(historyIndex + 1), [historyIndex, jumpTo]);
+
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
+      if (isTextEntryTarget(event.target)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if ((event.metaKey || event.ctrlKey) && !event.altKey && (key === "y" || key === "z")) {
+        event.preventDefault();
+        if (key === "z" && !event.shiftKey) {
+          undo();
+        } else {
+          redo();
+        }
+        return;
+      }
+
       if (event.metaKey || event.ctrlKey || event.altKey) {
         return;
       }
 
+      if (locked && !event.key.startsWith("Arrow")) {
+        return;
+      }
+
       if (/^[1-9]$/.test(event.key)) {
         event.preventDefault();
         applyDigit(Number.parseInt(event.key, 10));
@@ -172,19 +621,24 @@ export default function SudokuApp({ initialValues = null, onBack }: SudokuAppPro
         return;
       }
 
-      if (event.key.toLowerCase() === "n") {
+      if (key === "n") {
         event.preventDefault();
         setNoteMode((prev) => !prev);
         return;
       }
 
-      if (event.key.toLowerCase() === "u") {
+      if (key === "h") {
+        event.preventDefault();
+        requestHint();
+        return;
+      }
+
+      if (key === "u") {
         event.preventDefault();
-        if (historyIndex > 0) {
-          const previous = history[historyIndex - 1];
-          setValues([...previous.values]);
-          setNotes([...previous.notes]);
-          setHistoryIndex((prev) => prev - 1);
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
         }
         return;
       }
@@ -213,7 +667,7 @@ export default function SudokuApp({ initialValues = null, onBack }: SudokuAppPro
     return () => {
       window.removeEventListener("keydown", onKeyDown);
     };
-  }, [applyDigit, history, historyIndex, selected]);
+  }, [applyDigit, locked, redo, requestHint, selected, undo]);
 
   return (
     <div className="page-shell">
@@ -224,7 +678,18 @@ export default function SudokuApp({ initialValues = null, onBack }: SudokuAppPro
               <NextImage src="/logo.png" alt="PuzzleSnap logo" width={72} height={72} className="app-logo" />
               <div className="title-text">
                 <h1>PuzzleSnap</h1>
-                <span className="title-chip">Sudoku</span>
+                <span className="title-chips">
+                  <span className="title-chip">Sudoku</span>
+                  <span className="title-chip timer-chip" aria-label="Elapsed time">
+                    <Timer size={13} aria-hidden />
+                    {formatDuration(elapsedMs)}
+                  </span>
+                  {difficulty && (
+                    <span className="title-chip difficulty-chip" title={describeDifficulty(difficulty)}>
+                      {difficulty.label}
+                    </span>
+                  )}
+                </span>
               </div>
             </div>
             {onBack && (
@@ -297,6 +762,10 @@ export default function SudokuApp({ initialValues = null, onBack }: SudokuAppPro
               if (isGiven) classNames.push("cell-given");
               if (blocked) classNames.push("cell-blocked");
               if (invalid) classNames.push("cell-invalid");
+              if (checkedWrong.has(index)) classNames.push("cell-checked-wrong");
+              if (hintUnitCells.has(index)) classNames.push("cell-hint-unit");
+              if (hintEliminationCells.has(index)) classNames.push("cell-hint-elimination");
+              if (hintCells.has(index)) classNames.push("cell-hint");
               if ((col + 1) % 3 === 0 && col < 8) classNames.push("cell-box-right");
               if ((row + 1) % 3 === 0 && row < 8) classNames.push("cell-box-bottom");
 
@@ -324,76 +793,193 @@ export default function SudokuApp({ initialValues = null, onBack }: SudokuAppPro
           </div>
         </section>
 
-        <section className="controls">
-          <div className="keypad">
-            {DIGITS.map((digit) => {
-              const muted = completed.has(digit);
-              return (
-                <button
-                  key={digit}
-                  type="button"
-                  className={`key ${muted ? "key-muted" : ""}`}
-                  onClick={() => applyDigit(digit)}
-                >
-                  {digit}
-                </button>
-              );
-            })}
-          </div>
+        {locked ? (
+          <section className="controls">
+            <div className="hint-panel completion-panel" aria-live="polite">
+              <strong>Puzzle solved{difficulty ? ` · ${difficulty.label}` : ""}</strong>
+              <dl className="completion-summary">
+                <dt>Time</dt>
+                <dd>{formatDuration(elapsedMs)}</dd>
+                <dt>Mistakes</dt>
+                <dd>{mistakes}</dd>
+                <dt>Undos</dt>
+                <dd>{undos}</dd>
+                <dt>Hints</dt>
+                <dd>{assists.hints}</dd>
+              </dl>
+              <p>{describeAssists(assists)}</p>
+              {difficultyStats && (
+                <dl className="completion-summary">
+                  <dt>Best {difficulty?.label.toLowerCase()} time</dt>
+                  <dd>{difficultyStats.bestMs !== null ? formatDuration(difficultyStats.bestMs) : "-"}</dd>
+                  <dt>Average time</dt>
+                  <dd>{averageMs !== null ? formatDuration(averageMs) : "-"}</dd>
+                  <dt>Streak</dt>
+                  <dd>
+                    {difficultyStats.streak} (best {difficultyStats.bestStreak})
+                  </dd>
+                  <dt>Solved</dt>
+                  <dd>{difficultyStats.solved}</dd>
+                </dl>
+              )}
+              {onBack && (
+                <div className="import-actions">
+                  <button type="button" className="key" onClick={onBack}>
+                    Back
+                  </button>
+                </div>
+              )}
+            </div>
+          </section>
+        ) : (
+          <section className="controls">
+            <div className="keypad">
+              {DIGITS.map((digit) => {
+                const muted = completed.has(digit);
+                return (
+                  <button
+                    key={digit}
+                    type="button"
+                    className={`key ${muted ? "key-muted" : ""}`}
+                    onClick={() => applyDigit(digit)}
+                  >
+                    {digit}
+                  </button>
+                );
+              })}
+            </div>
 
-          <div className="action-row">
-            <button type="button" className={`key ${noteMode ? "key-note-on" : ""}`} onClick={() => setNoteMode((prev) => !prev)}>
-              <span className="key-content">
-                <PenLine size={16} aria-hidden />
-                Note {noteMode ? "ON" : "OFF"}
-              </span>
-            </button>
-            <button type="button" className="key" onClick={() => applyDigit(null)}>
-              <span className="key-content">
-                <Eraser size={16} aria-hidden />
-                Delete
-              </span>
-            </button>
-            <button
-              type="button"
-              className="key"
-              onClick={() => {
-                if (historyIndex > 0) {
-                  const previous = history[historyIndex - 1];
-                  setValues([...previous.values]);
-                  setNotes([...previous.notes]);
-                  setHistoryIndex((prev) => prev - 1);
-                }
-              }}
-            >
-              <span className="key-content">
-                <Undo2 size={16} aria-hidden />
-                Undo
-              </span>
-            </button>
-            <button
-              type="button"
-              className="key"
-              onClick={() => {
-                const cleanNotes = createEmptyNotes();
-                const snapshot = { values: [...startValues], notes: cleanNotes };
-                setValues(snapshot.values);
-                setNotes(snapshot.notes);
-                setHistory((prev) => {
-                  const trimmed = prev.slice(0, historyIndex + 1).map(cloneSnapshot);
-                  trimmed.push(snapshot);
-                  setHistoryIndex(trimmed.length - 1);
-                  return trimmed;
-                });
-              }}
-            >
-              <span className="key-content">
-                <RotateCcw size={16} aria-hidden />
-                Reset
-              </span>
-            </button>
-          </div>
-        </section>
+            <div className="action-row">
+              <button type="button" className={`key ${noteMode ? "key-note-on" : ""}`} onClick={() => setNoteMode((prev) => !prev)}>
+                <span className="key-content">
+                  <PenLine size={16} aria-hidden />
+                  Note {noteMode ? "ON" : "OFF"}
+                </span>
+              </button>
+              <button type="button" className="key" onClick={() => applyDigit(null)}>
+                <span className="key-content">
+                  <Eraser size={16} aria-hidden />
+                  Delete
+                </span>
+              </button>
+              <button type="button" className="key" onClick={undo} disabled={historyIndex === 0}>
+                <span className="key-content">
+                  <Undo2 size={16} aria-hidden />
+                  Undo
+                </span>
+              </button>
+              <button type="button" className="key" onClick={redo} disabled={historyIndex >= history.length - 1}>
+                <span className="key-content">
+                  <Redo2 size={16} aria-hidden />
+                  Redo
+                </span>
+              </button>
+              <button type="button" className="key" onClick={resetBoard}>
+                <span className="key-content">
+                  <RotateCcw size={16} aria-hidden />
+                  Reset
+                </span>
+              </button>
+              <button type="button" className="key" onClick={requestHint}>
+                <span className="key-content">
+                  <Lightbulb size={16} aria-hidden />
+                  Hint
+                </span>
+              </button>
+              <button type="button" className="key" onClick={fillCandidates}>
+                <span className="key-content">
+                  <Grid3x3 size={16} aria-hidden />
+                  Fill notes
+                </span>
+              </button>
+              <button
+                type="button"
+                className={`key ${autoCandidates ? "key-note-on" : ""}`}
+                onClick={toggleAutoCandidates}
+              >
+                <span className="key-content">
+                  <RefreshCcwDot size={16} aria-hidden />
+                  Auto notes {autoCandidates ? "ON" : "OFF"}
+                </span>
+              </button>
+              <button type="button" className="key" onClick={checkBoard} disabled={!solution}>
+                <span className="key-content">
+                  <SquareCheck size={16} aria-hidden />
+                  Check
+                </span>
+              </button>
+              <button
+                type="button"
+                className="key"
+                onClick={revealCell}
+                disabled={!solution || selected === null || startValues[selected] !== null}
+              >
+                <span className="key-content">
+                  <Eye size={16} aria-hidden />
+                  Reveal cell
+                </span>
+              </button>
+              <button type="button" className="key" onClick={revealPuzzle} disabled={!solution}>
+                <span className="key-content">
+                  <CheckCheck size={16} aria-hidden />
+                  Reveal puzzle
+                </span>
+              </button>
+            </div>
+
+            {activeHint && (
+              <div className="hint-panel" aria-live="polite">
+                {activeHint.step && <strong>{activeHint.step.name}</strong>}
+                <p>{activeHint.message}</p>
+                <div className="import-actions">
+                  {activeHint.step && stepChangesBoard(activeHint.step, notes) && (
+                    <button type="button" className="key" onClick={applyHint}>
+                      <span className="key-content">
+                        <Check size={16} aria-hidden />
+                        Apply
+                      </span>
+                    </button>
+                  )}
+                  <button type="button" className="key" onClick={() => setHint(null)}>
+                    <span className="key-content">
+                      <X size={16} aria-hidden />
+                      Dismiss
+                    </span>
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <details className="history-panel">
+              <summary>
+                <History size={16} aria-hidden />
+                Moves ({historyIndex}/{history.length - 1})
+              </summary>
+              <ol className="history-list">
+                {history.map((snapshot, index) => {
+                  const state = index === historyIndex ? "current" : index > historyIndex ? "future" : "past";
+                  return (
+                    <li key={index}>
+                      <button
+                        type="button"
+                        className={`history-item history-item-${state}`}
+                        onClick={() => jumpTo(index)}
+                        aria-current={index === historyIndex ? "step" : undefined}
+                      >
+                        <span className="history-step">{index}</span>
+                        {describeMove(snapshot.move)}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+            </details>
+
+            {onImport && (
+              <PuzzleTextTransfer puzzle={{ givens: startValues, values, notes }} allowProgress onImport={onImport} />
+            )}
+          </section>
+        )}
       </main>
     </div>
   );
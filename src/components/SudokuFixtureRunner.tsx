@@ -1,9 +1,15 @@
 "use client";
 
 import NextImage from "next/image";
-import { Play, RefreshCw } from "lucide-react";
+import { Gauge, Play, RefreshCw } from "lucide-react";
 import { useMemo, useState } from "react";
-import { recognizeSudokuFromImageFile } from "@/lib/sudoku-recognition";
+import {
+  DIGIT_RECOGNIZER_NAMES,
+  DIGIT_RECOGNIZERS,
+  recognizeSudokuFromImageFile,
+  type DigitRecognizerId,
+  type RecognizeOptions
+} from "@/lib/sudoku-recognition";
 import {
   bestAlignment,
   gridToString,
@@ -15,11 +21,23 @@ import {
 
 type FixtureResult = {
   fixtureId: string;
+  recognizer: DigitRecognizerId;
   status: "pass" | "warn" | "error";
   message: string;
   diagnostic?: string;
   accuracy?: number;
   falsePositives?: number;
+  durationMs?: number;
+};
+
+// One fixture read with one Tesseract pool size, for the single-worker vs pool comparison.
+type PoolRun = {
+  fixtureId: string;
+  workers: number;
+  accuracy: number;
+  matched: string;
+  falsePositives: number;
+  durationMs: number;
 };
 
 async function fetchFixtureFile(path: string): Promise<File> {
@@ -33,6 +51,49 @@ async function fetchFixtureFile(path: string): Promise<File> {
   return new File([blob], name, { type: blob.type || "image/png" });
 }
 
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+function isResultFor(result: FixtureResult, fixtureId: string, recognizer: DigitRecognizerId): boolean {
+  return result.fixtureId === fixtureId && result.recognizer === recognizer;
+}
+
+async function measureFixture(fixture: SudokuFixture, options: RecognizeOptions) {
+  const expected = parseExpectedGrid(fixture.expectedGrid);
+  const file = await fetchFixtureFile(fixture.imagePath);
+  const started = performance.now();
+  const recognized = await recognizeSudokuFromImageFile(file, undefined, options);
+  const durationMs = performance.now() - started;
+  return { expected, recognized, durationMs, score: scoreRecognition(expected, recognized.values) };
+}
+
+// Markdown, so a run can be pasted into a pull request together with the machine it ran on.
+function formatPoolReport(runs: PoolRun[], fixtures: SudokuFixture[]): string {
+  const workerCounts = [...new Set(runs.map((run) => run.workers))];
+  const lines = [
+    `OCR pool comparison, ${new Date().toISOString()}`,
+    `Machine: ${navigator.hardwareConcurrency || "unknown"} logical cores; ${navigator.userAgent}`,
+    `Settings: ${DIGIT_RECOGNIZER_NAMES.tesseract}, automatic corners, ${fixtures.length} fixtures, ` +
+      "pool started by an untimed read before timing",
+    "",
+    "| Fixture | Workers | Match | False positives | Time |",
+    "| --- | --- | --- | --- | --- |",
+    ...runs.map(
+      (run) =>
+        `| ${run.fixtureId} | ${run.workers} | ${run.matched} | ${run.falsePositives} | ${formatSeconds(run.durationMs)} |`
+    ),
+    ...workerCounts.map((workers) => {
+      const scored = runs.filter((run) => run.workers === workers);
+      const accuracy = scored.reduce((sum, run) => sum + run.accuracy, 0) / Math.max(1, scored.length);
+      const falsePositives = scored.reduce((sum, run) => sum + run.falsePositives, 0);
+      const durationMs = scored.reduce((sum, run) => sum + run.durationMs, 0);
+      return `| All | ${workers} | ${Math.round(accuracy * 100)}% | ${falsePositives} | ${formatSeconds(durationMs)} |`;
+    })
+  ];
+  return lines.join("\n");
+}
+
 function statusClass(status: FixtureResult["status"]): string {
   if (status === "pass") return "fixture-pass";
   if (status === "warn") return "fixture-warn";
@@ -43,20 +104,48 @@ export default function SudokuFixtureRunner() {
   const [running, setRunning] = useState(false);
   const [activeId, setActiveId] = useState<string | null>(null);
   const [results, setResults] = useState<FixtureResult[]>([]);
+  const [poolReport, setPoolReport] = useState<string | null>(null);
 
   const enabledFixtures = useMemo(
     () => sudokuFixtures.filter((fixture) => fixture.enabled !== false),
     []
   );
 
-  const runFixture = async (fixture: SudokuFixture) => {
-    setActiveId(fixture.id);
+  // Accuracy and time per digit reader across everything run so far, to compare the readers
+  // side by side and a recognition change before and after.
+  const summaries = useMemo(
+    () =>
+      DIGIT_RECOGNIZERS.flatMap((recognizer) => {
+        const scored = results.filter(
+          (result) =>
+            result.recognizer === recognizer && result.accuracy !== undefined && result.durationMs !== undefined
+        );
+        if (scored.length === 0) {
+          return [];
+        }
+        const total = (pick: (result: FixtureResult) => number) =>
+          scored.reduce((sum, result) => sum + pick(result), 0);
+        return [
+          {
+            recognizer,
+            count: scored.length,
+            accuracy: total((result) => result.accuracy ?? 0) / scored.length,
+            falsePositives: total((result) => result.falsePositives ?? 0),
+            durationMs: total((result) => result.durationMs ?? 0)
+          }
+        ];
+      }),
+    [results]
+  );
+
+  const runFixtureWith = async (fixture: SudokuFixture, recognizer: DigitRecognizerId) => {
     try {
-      const expected = parseExpectedGrid(fixture.expectedGrid);
-      const file = await fetchFixtureFile(fixture.imagePath);
-      const recognized = await recognizeSudokuFromImageFile(file);
-      const score = scoreRecognition(expected, recognized.values);
+      const { expected, recognized, durationMs, score } = await measureFixture(fixture, { recognizer });
       const aligned = bestAlignment(expected, recognized.values);
+      // Screenshots of games in progress also say which digits the player entered.
+      const entries = fixture.expectedEntries
+        ? scoreRecognition(parseExpectedGrid(fixture.expectedEntries), recognized.entries)
+        : null;
 
       const status: FixtureResult["status"] =
         score.accuracy >= 0.92 && score.falsePositives <= 2
@@ -68,12 +157,17 @@ export default function SudokuFixtureRunner() {
       const message =
         `${Math.round(score.accuracy * 100)}% match ` +
         `(${score.matchedExpected}/${score.totalExpected}), false positives: ${score.falsePositives}, ` +
-        `pruned: ${recognized.droppedConflicts}`;
+        `pruned: ${recognized.droppedConflicts}, corrected: ${recognized.corrections.length}, ` +
+        `took ${formatSeconds(durationMs)}` +
+        (entries
+          ? `; entries ${entries.matchedExpected}/${entries.totalExpected}, false positives: ${entries.falsePositives}`
+          : "");
 
       setResults((prev) => [
-        ...prev.filter((result) => result.fixtureId !== fixture.id),
+        ...prev.filter((result) => !isResultFor(result, fixture.id, recognizer)),
         {
           fixtureId: fixture.id,
+          recognizer,
           status,
           message,
           diagnostic:
@@ -81,35 +175,80 @@ export default function SudokuFixtureRunner() {
             `(${aligned.matchedExpected}/${aligned.totalExpected}), FP: ${aligned.falsePositives}. ` +
             `Recognized: ${gridToString(recognized.values)}`,
           accuracy: score.accuracy,
-          falsePositives: score.falsePositives
+          falsePositives: score.falsePositives,
+          durationMs
         }
       ]);
     } catch (error) {
       const message = error instanceof Error ? error.message : "Fixture failed";
       setResults((prev) => [
-        ...prev.filter((result) => result.fixtureId !== fixture.id),
+        ...prev.filter((result) => !isResultFor(result, fixture.id, recognizer)),
         {
           fixtureId: fixture.id,
+          recognizer,
           status: "error",
           message
         }
       ]);
-    } finally {
-      setActiveId(null);
     }
   };
 
+  const runFixture = async (fixture: SudokuFixture) => {
+    setActiveId(fixture.id);
+    for (const recognizer of DIGIT_RECOGNIZERS) {
+      await runFixtureWith(fixture, recognizer);
+    }
+    setActiveId(null);
+  };
+
   const runAll = async () => {
     setRunning(true);
     setResults([]);
     for (const fixture of enabledFixtures) {
-      // Run sequentially to avoid spinning up many OCR workers at once.
-      // This keeps fixture runs stable on lower-power machines.
+      // Run sequentially: the recognizer keeps one warm engine and only serves the
+      // newest request, so overlapping runs would cancel each other.
       await runFixture(fixture);
     }
     setRunning(false);
   };
 
+  // Reads every fixture with one Tesseract worker and then with the default pool, so a change
+  // to the pool can be judged on accuracy and time from the same machine.
+  const comparePool = async () => {
+    const [first] = enabledFixtures;
+    if (!first) {
+      return;
+    }
+    setRunning(true);
+    setPoolReport(null);
+    const runs: PoolRun[] = [];
+    try {
+      for (const ocrWorkers of [1, undefined]) {
+        const options: RecognizeOptions = { recognizer: "tesseract", ocrWorkers };
+        // Starting the engines takes seconds and would otherwise be charged to the first fixture.
+        const { recognized: warmup } = await measureFixture(first, options);
+        for (const fixture of enabledFixtures) {
+          setActiveId(fixture.id);
+          const { score, durationMs } = await measureFixture(fixture, options);
+          runs.push({
+            fixtureId: fixture.id,
+            workers: warmup.concurrency,
+            accuracy: score.accuracy,
+            matched: `${score.matchedExpected}/${score.totalExpected}`,
+            falsePositives: score.falsePositives,
+            durationMs
+          });
+        }
+      }
+      setPoolReport(formatPoolReport(runs, enabledFixtures));
+    } catch (error) {
+      setPoolReport(error instanceof Error ? error.message : "Pool comparison failed");
+    } finally {
+      setActiveId(null);
+      setRunning(false);
+    }
+  };
+
   return (
     <div className="page-shell">
       <main className="card setup-card">
@@ -123,7 +262,7 @@ export default function SudokuFixtureRunner() {
               </div>
             </div>
           </div>
-          <p>Run stored Sudoku images against expected grids to track recognition quality per game.</p>
+          <p>Run stored Sudoku images against expected grids to track recognition quality per game, with each digit reader side by side.</p>
         </div>
 
         <section className="setup-type-panel">
@@ -135,7 +274,28 @@ export default function SudokuFixtureRunner() {
                 {running ? "Running..." : "Run all fixtures"}
               </span>
             </button>
+            {DIGIT_RECOGNIZERS.includes("tesseract") && (
+              <button
+                type="button"
+                className="key"
+                onClick={() => void comparePool()}
+                disabled={running || enabledFixtures.length === 0}
+              >
+                <span className="key-content">
+                  <Gauge size={16} aria-hidden />
+                  Compare OCR pool
+                </span>
+              </button>
+            )}
           </div>
+          {poolReport && <textarea readOnly value={poolReport} rows={12} spellCheck={false} />}
+          {summaries.map((summary) => (
+            <p key={summary.recognizer}>
+              {DIGIT_RECOGNIZER_NAMES[summary.recognizer]}: {summary.count} fixtures,{" "}
+              {Math.round(summary.accuracy * 100)}% average match, {summary.falsePositives} false positives,{" "}
+              {formatSeconds(summary.durationMs)} total ({formatSeconds(summary.durationMs / summary.count)} each)
+            </p>
+          ))}
           {enabledFixtures.length === 0 && (
             <p>No enabled fixtures yet. Add entries in `src/lib/sudoku-fixtures.ts` and images under `public/test-images/`.</p>
           )}
@@ -145,7 +305,9 @@ export default function SudokuFixtureRunner() {
           <h2>Fixtures</h2>
           <div className="fixture-list">
             {sudokuFixtures.map((fixture) => {
-              const result = results.find((entry) => entry.fixtureId === fixture.id);
+              const fixtureResults = DIGIT_RECOGNIZERS.flatMap((recognizer) =>
+                results.filter((entry) => isResultFor(entry, fixture.id, recognizer))
+              );
               const disabled = fixture.enabled === false;
               return (
                 <div key={fixture.id} className="fixture-item">
@@ -153,8 +315,14 @@ export default function SudokuFixtureRunner() {
                     <strong>{fixture.name}</strong>
                     <p>{fixture.imagePath}</p>
                     <p>{disabled ? "Disabled" : "Enabled"}</p>
-                    {result && <p className={statusClass(result.status)}>{result.message}</p>}
-                    {result?.diagnostic && <p>{result.diagnostic}</p>}
+                    {fixtureResults.map((result) => (
+                      <div key={result.recognizer}>
+                        <p className={statusClass(result.status)}>
+                          {DIGIT_RECOGNIZER_NAMES[result.recognizer]}: {result.message}
+                        </p>
+                        {result.diagnostic && <p>{result.diagnostic}</p>}
+                      </div>
+                    ))}
                     {activeId === fixture.id && <p>Running OCR...</p>}
                   </div>
                   {!disabled && (
@@ -162,7 +330,7 @@ export default function SudokuFixtureRunner() {
                       type="button"
                       className="key"
                       onClick={() => void runFixture(fixture)}
-                      disabled={running || activeId === fixture.id}
+                      disabled={running || activeId !== null}
                     >
                       <span className="key-content">
                         <Play size={16} aria-hidden />
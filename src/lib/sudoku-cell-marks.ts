@@ -0,0 +1,253 @@
+// Pixel-level helpers for telling what kind of writing a cell holds: a printed given, a
+// handwritten entry, or small pencil marks. Everything works on ImageData so it runs the
+// same in the recognition worker and on the page.
+
+export type InkComponent = {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  pixels: number;
+};
+
+export type InkTone = {
+  // How far the ink's mean luminance is from the cell background's, 0-255. Works the same
+  // for dark ink on a light page and light ink on a dark one.
+  contrast: number;
+  // Mean chroma of the ink (max - min channel), 0-1. Black, white and grey are near 0;
+  // blue or red pen and an app's coloured entries are not.
+  chroma: number;
+};
+
+export type CellWriting = "printed" | "handwritten";
+
+const INK_THRESHOLD = 128;
+
+// Pencil marks are small next to a full digit. Sizes are fractions of the crop they are found in.
+const MARK_MIN_SIZE = 0.09;
+const MARK_MAX_SIZE = 0.34;
+const MARK_MIN_PIXELS = 12;
+// What is left of a broken grid line along the crop's edge: long and only a pixel or two thick.
+const EDGE_SLIVER_SIZE = 0.05;
+// A speck of noise spread over an empty cell has little contrast to begin with.
+const MIN_MARK_CONTRAST = 60;
+
+// Ink that is clearly fainter (pencil, an app's entry colour) or more colourful (pen) than
+// the puzzle's print.
+const HANDWRITTEN_CONTRAST_GAP = 45;
+const HANDWRITTEN_CHROMA_GAP = 0.18;
+// With ink only somewhat off from the print, a glyph that fits no printed font this badly
+// tips the cell to handwriting. Likeness alone never does: puzzles print in fonts the
+// templates do not cover.
+const MIN_PRINTED_LIKENESS = 45;
+const UNCERTAIN_INK_SHARE = 0.5;
+
+function isInk(image: ImageData, pixel: number): boolean {
+  return image.data[pixel * 4] < INK_THRESHOLD;
+}
+
+export function findInkComponents(image: ImageData): InkComponent[] {
+  const { width, height } = image;
+  const visited = new Uint8Array(width * height);
+  const components: InkComponent[] = [];
+
+  for (let start = 0; start < width * height; start += 1) {
+    if (visited[start] || !isInk(image, start)) {
+      continue;
+    }
+    const component: InkComponent = { left: width, top: height, right: -1, bottom: -1, pixels: 0 };
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const pixel = stack.pop()!;
+      const x = pixel % width;
+      const y = Math.floor(pixel / width);
+      component.left = Math.min(component.left, x);
+      component.top = Math.min(component.top, y);
+      component.right = Math.max(component.right, x);
+      component.bottom = Math.max(component.bottom, y);
+      component.pixels += 1;
+      for (let dy = -1; dy <= 1; dy += 1) {
+        for (let dx = -1; dx <= 1; dx += 1) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) {
+            continue;
+          }
+          const next = ny * width + nx;
+          if (!visited[next] && isInk(image, next)) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+    components.push(component);
+  }
+  return components;
+}
+
+// Height of the tallest glyph in the crop. Unlike the height of all ink together, this
+// stays small for a cell holding several pencil marks above each other.
+export function tallestInkHeight(image: ImageData): number {
+  return findInkComponents(image).reduce(
+    (tallest, component) => Math.max(tallest, component.bottom - component.top + 1),
+    0
+  );
+}
+
+function luminanceSpread(original: ImageData): number {
+  const histogram = new Uint32Array(256);
+  const { data } = original;
+  for (let p = 0; p < data.length; p += 4) {
+    histogram[Math.round(0.2126 * data[p] + 0.7152 * data[p + 1] + 0.0722 * data[p + 2])] += 1;
+  }
+  const total = data.length / 4;
+  const percentile = (fraction: number) => {
+    let seen = 0;
+    for (let value = 0; value < 256; value += 1) {
+      seen += histogram[value];
+      if (seen >= total * fraction) {
+        return value;
+      }
+    }
+    return 255;
+  };
+  return percentile(0.98) - percentile(0.02);
+}
+
+// Small glyphs in a cell without a full-size digit, in reading order. The binary is the
+// wide crop of the cell (most of its area, grid lines already cleared) so corner marks survive.
+export function findPencilMarks(original: ImageData, binary: ImageData): InkComponent[] {
+  if (luminanceSpread(original) < MIN_MARK_CONTRAST) {
+    return [];
+  }
+  const { width, height } = binary;
+  return findInkComponents(binary)
+    .filter((component) => {
+      const componentWidth = component.right - component.left + 1;
+      const componentHeight = component.bottom - component.top + 1;
+      const edgeSliver =
+        ((component.left === 0 || component.right === width - 1) && componentWidth < width * EDGE_SLIVER_SIZE) ||
+        ((component.top === 0 || component.bottom === height - 1) && componentHeight < height * EDGE_SLIVER_SIZE);
+      return (
+        !edgeSliver &&
+        component.pixels >= MARK_MIN_PIXELS &&
+        componentHeight >= height * MARK_MIN_SIZE &&
+        componentHeight <= height * MARK_MAX_SIZE &&
+        componentWidth <= width * MARK_MAX_SIZE
+      );
+    })
+    .sort((a, b) => markSlot(a, width, height) - markSlot(b, width, height));
+}
+
+// Apps and most solvers put candidate d in the d-th spot of a 3x3 layout; this is that spot (0-8).
+export function markSlot(component: InkComponent, width: number, height: number): number {
+  const centerX = (component.left + component.right) / 2;
+  const centerY = (component.top + component.bottom) / 2;
+  const col = Math.min(2, Math.floor((centerX / width) * 3));
+  const row = Math.min(2, Math.floor((centerY / height) * 3));
+  return row * 3 + col;
+}
+
+// Scales one mark up to the size of a full digit in a size x size crop, so the digit
+// recognizer can read it like any other cell.
+export function enlargeComponent(binary: ImageData, component: InkComponent, size = 72): ImageData {
+  const out = new ImageData(size, size);
+  out.data.fill(255);
+  const componentWidth = component.right - component.left + 1;
+  const componentHeight = component.bottom - component.top + 1;
+  const scale = (size * 0.6) / Math.max(componentWidth, componentHeight);
+  const offsetX = (size - componentWidth * scale) / 2;
+  const offsetY = (size - componentHeight * scale) / 2;
+
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const sourceX = Math.floor((x - offsetX) / scale) + component.left;
+      const sourceY = Math.floor((y - offsetY) / scale) + component.top;
+      if (
+        sourceX >= component.left &&
+        sourceX <= component.right &&
+        sourceY >= component.top &&
+        sourceY <= component.bottom &&
+        isInk(binary, sourceY * binary.width + sourceX)
+      ) {
+        const p = (y * size + x) * 4;
+        out.data[p] = 0;
+        out.data[p + 1] = 0;
+        out.data[p + 2] = 0;
+      }
+    }
+  }
+  return out;
+}
+
+// The colour of the original pixels under the binarized ink of the same crop, against
+// the rest of the crop as background.
+export function measureInkTone(original: ImageData, binary: ImageData): InkTone | null {
+  let inkCount = 0;
+  let inkLuminance = 0;
+  let chroma = 0;
+  let backgroundCount = 0;
+  let backgroundLuminance = 0;
+  for (let pixel = 0; pixel < binary.width * binary.height; pixel += 1) {
+    const p = pixel * 4;
+    const r = original.data[p];
+    const g = original.data[p + 1];
+    const b = original.data[p + 2];
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    if (!isInk(binary, pixel)) {
+      backgroundLuminance += luminance;
+      backgroundCount += 1;
+      continue;
+    }
+    inkLuminance += luminance;
+    chroma += (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+    inkCount += 1;
+  }
+  if (inkCount === 0 || backgroundCount === 0) {
+    return null;
+  }
+  return {
+    contrast: Math.abs(inkLuminance / inkCount - backgroundLuminance / backgroundCount),
+    chroma: chroma / inkCount
+  };
+}
+
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+// Decides per digit cell whether it was printed or written by hand (or, in a screenshot,
+// entered by the player). Print is the strongest, most neutral ink on the page, so each
+// cell is compared with that rather than with fixed colours; printedLikeness (0-100) is
+// how well the glyph matches a printed font and only settles cells whose ink is in between.
+export function classifyWriting(
+  cells: { tone: InkTone | null; printedLikeness: number }[]
+): CellWriting[] {
+  const tones = cells.flatMap((cell) => (cell.tone ? [cell.tone] : []));
+  if (tones.length === 0) {
+    return cells.map(() => "printed");
+  }
+  const printContrast = percentile(
+    tones.map((tone) => tone.contrast),
+    0.8
+  );
+  const printChroma = percentile(
+    tones.map((tone) => tone.chroma),
+    0.2
+  );
+  const inkDifference = (tone: InkTone, share: number) =>
+    printContrast - tone.contrast > HANDWRITTEN_CONTRAST_GAP * share ||
+    tone.chroma - printChroma > HANDWRITTEN_CHROMA_GAP * share;
+  return cells.map(({ tone, printedLikeness }) => {
+    if (tone === null) {
+      return "printed";
+    }
+    const handwritten =
+      inkDifference(tone, 1) ||
+      (inkDifference(tone, UNCERTAIN_INK_SHARE) && printedLikeness < MIN_PRINTED_LIKENESS);
+    return handwritten ? "handwritten" : "printed";
+  });
+}
@@ -0,0 +1,72 @@
+import { type BoardValues } from "@/lib/sudoku";
+import { hasUniqueSolution } from "@/lib/sudoku-solver";
+import {
+  TECHNIQUE_NAMES,
+  applyStep,
+  computeStepCandidates,
+  findNextStep,
+  type TechniqueId
+} from "@/lib/sudoku-techniques";
+
+export type DifficultyLabel = "Easy" | "Medium" | "Hard" | "Expert" | "Needs guessing";
+
+export type DifficultyRating = {
+  label: DifficultyLabel;
+  hardestTechnique: TechniqueId | null;
+  steps: number;
+  solvedLogically: boolean;
+};
+
+export const DIFFICULTY_LABELS: DifficultyLabel[] = ["Easy", "Medium", "Hard", "Expert", "Needs guessing"];
+
+// Both singles are the entry level: a puzzle that needs nothing else is Easy.
+const TECHNIQUE_LEVEL: Record<TechniqueId, number> = {
+  hiddenSingle: 0,
+  nakedSingle: 0,
+  pointing: 1,
+  claiming: 1,
+  nakedPair: 2,
+  hiddenPair: 2,
+  nakedTriple: 2,
+  hiddenTriple: 2,
+  xWing: 3,
+  swordfish: 3
+};
+
+export function rateDifficulty(givens: BoardValues): DifficultyRating | null {
+  if (!hasUniqueSolution(givens)) {
+    return null;
+  }
+
+  let values = [...givens];
+  let candidates = computeStepCandidates(values);
+  let hardest: TechniqueId | null = null;
+  let steps = 0;
+
+  for (;;) {
+    const step = findNextStep(values, candidates);
+    if (!step) {
+      break;
+    }
+    steps += 1;
+    if (hardest === null || TECHNIQUE_LEVEL[step.technique] > TECHNIQUE_LEVEL[hardest]) {
+      hardest = step.technique;
+    }
+    ({ values, candidates } = applyStep(values, candidates, step));
+  }
+
+  const solvedLogically = values.every((value) => value !== null);
+  return {
+    label: solvedLogically ? DIFFICULTY_LABELS[hardest === null ? 0 : TECHNIQUE_LEVEL[hardest]] : "Needs guessing",
+    hardestTechnique: hardest,
+    steps,
+    solvedLogically
+  };
+}
+
+export function describeDifficulty(rating: DifficultyRating): string {
+  const hardest = rating.hardestTechnique ? TECHNIQUE_NAMES[rating.hardestTechnique] : "none";
+  return rating.solvedLogically
+    ? `${rating.label} · hardest step: ${hardest} · ${rating.steps} steps`
+    : `${rating.label} · stuck after ${rating.steps} steps (hardest so far: ${hardest})`;
+}
@@ -0,0 +1,126 @@
+import { type DigitCandidate } from "@/lib/sudoku-ocr-correction";
+import { type DigitRecognizer } from "@/lib/sudoku-recognition";
+
+export type DigitSample = {
+  digit: number;
+  image: ImageData;
+};
+
+// Glyphs are compared on a coarse ink-density grid, which forgives stroke width and
+// small offsets far better than comparing pixels.
+const GRID = 16;
+const INK_THRESHOLD = 128;
+// Correlation at or below this reads as 0% confidence; a perfect match reads as 100%.
+const FLOOR_CORRELATION = 0.45;
+
+type InkBox = { left: number; top: number; right: number; bottom: number };
+
+function findInkBox(image: ImageData): InkBox | null {
+  const { data, width, height } = image;
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      if (data[(y * width + x) * 4] < INK_THRESHOLD) {
+        left = Math.min(left, x);
+        top = Math.min(top, y);
+        right = Math.max(right, x);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+  return right < 0 ? null : { left, top, right, bottom };
+}
+
+// Scales the glyph's bounding box into the grid, keeping its aspect ratio so a narrow 1
+// stays narrow, then centres the result on zero so the comparison ignores overall darkness.
+export function glyphFeatures(image: ImageData): Float32Array | null {
+  const box = findInkBox(image);
+  if (!box) {
+    return null;
+  }
+  const boxWidth = box.right - box.left + 1;
+  const boxHeight = box.bottom - box.top + 1;
+  const side = Math.max(boxWidth, boxHeight);
+  const offsetX = box.left - (side - boxWidth) / 2;
+  const offsetY = box.top - (side - boxHeight) / 2;
+  const features = new Float32Array(GRID * GRID);
+  const counts = new Float32Array(GRID * GRID);
+
+  for (let y = box.top; y <= box.bottom; y += 1) {
+    for (let x = box.left; x <= box.right; x += 1) {
+      const gx = Math.min(GRID - 1, Math.floor(((x - offsetX) / side) * GRID));
+      const gy = Math.min(GRID - 1, Math.floor(((y - offsetY) / side) * GRID));
+      const cell = gy * GRID + gx;
+      counts[cell] += 1;
+      if (image.data[(y * image.width + x) * 4] < INK_THRESHOLD) {
+        features[cell] += 1;
+      }
+    }
+  }
+
+  let mean = 0;
+  for (let i = 0; i < features.length; i += 1) {
+    features[i] = counts[i] > 0 ? features[i] / counts[i] : 0;
+    mean += features[i];
+  }
+  mean /= features.length;
+  let norm = 0;
+  for (let i = 0; i < features.length; i += 1) {
+    features[i] -= mean;
+    norm += features[i] * features[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm === 0) {
+    return null;
+  }
+  for (let i = 0; i < features.length; i += 1) {
+    features[i] /= norm;
+  }
+  return features;
+}
+
+function correlation(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+export function classifyGlyph(
+  image: ImageData,
+  templates: { digit: number; features: Float32Array }[]
+): DigitCandidate[] {
+  const features = glyphFeatures(image);
+  if (!features) {
+    return [];
+  }
+  const best = new Map<number, number>();
+  for (const template of templates) {
+    const score = correlation(features, template.features);
+    best.set(template.digit, Math.max(best.get(template.digit) ?? -1, score));
+  }
+  return Array.from(best, ([digit, score]) => ({
+    digit,
+    confidence: Math.max(0, Math.min(100, ((score - FLOOR_CORRELATION) / (1 - FLOOR_CORRELATION)) * 100))
+  }))
+    .filter((candidate) => candidate.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, 3);
+}
+
+// A CPU-only nearest-template classifier. It is synchronous and fast, so one lane is enough.
+export function createTemplateRecognizer(samples: DigitSample[]): DigitRecognizer {
+  const templates = samples.flatMap(({ digit, image }) => {
+    const features = glyphFeatures(image);
+    return features ? [{ digit, features }] : [];
+  });
+  return {
+    id: "template",
+    concurrency: 1,
+    readCell: async (cell) => classifyGlyph(cell, templates)
+  };
+}
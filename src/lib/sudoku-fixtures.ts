@@ -5,6 +5,8 @@ export type SudokuFixture = {
   name: string;
   imagePath: string;
   expectedGrid: string;
+  // Player entries in the same 81-character form, for screenshots of games in progress.
+  expectedEntries?: string;
   enabled?: boolean;
 };
 
@@ -35,6 +37,29 @@ export const sudokuFixtures: SudokuFixture[] = [
       ".......83...5912.74..68..51.6.35.8.......9.3.37..64..2712...46.8...75..9..5..63..",
     enabled: true
   },
+  // Not captures of a real app: boards drawn in app style (light and dark theme, highlights,
+  // coloured entries, pencil marks) from digit glyphs cut out of sudoku_2.png. They
+  // cover polarity and colour handling, not real app fonts, anti-aliasing or status bars.
+  {
+    id: "synthetic-screenshot-light",
+    name: "Synthetic app screenshot (light)",
+    imagePath: "/test-images/synthetic_screenshot_light.png",
+    expectedGrid:
+      ".7..65..3....3...76....94..4....7...32.....81...1....5..45....88...9....5..81..7.",
+    expectedEntries:
+      "..2......9....1.....3.....2....5......5...7......2....2.....1.....6..............",
+    enabled: true
+  },
+  {
+    id: "synthetic-screenshot-dark",
+    name: "Synthetic app screenshot (dark)",
+    imagePath: "/test-images/synthetic_screenshot_dark.png",
+    expectedGrid:
+      "3....4.6..9..76.8...6...5..738....9.4.......5.5....741..7...9...8.91..7..6.3....8",
+    expectedEntries:
+      "..5.....9......3.....2....7......6.....7...3.....3.......6....3......4...........",
+    enabled: true
+  },
 ];
 
 export function parseExpectedGrid(grid: string): BoardValues {
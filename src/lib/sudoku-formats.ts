@@ -0,0 +1,196 @@
+import { CELL_COUNT, bitForDigit, createEmptyNotes, digitsFromMask, type BoardValues } from "@/lib/sudoku";
+
+export type PuzzleFormat = "line" | "grid" | "sdk" | "csv" | "candidates";
+
+export type PuzzleDocument = {
+  givens: BoardValues;
+  values: BoardValues;
+  notes: number[];
+};
+
+export type ParsedPuzzle = PuzzleDocument & {
+  format: PuzzleFormat;
+};
+
+export const PUZZLE_FORMATS: PuzzleFormat[] = ["line", "grid", "sdk", "csv", "candidates"];
+
+export const PUZZLE_FORMAT_NAMES: Record<PuzzleFormat, string> = {
+  line: "81-character line",
+  grid: "Grid with separators",
+  sdk: "SadMan .sdk",
+  csv: "CSV",
+  candidates: "Progress with candidates"
+};
+
+export const PUZZLE_FORMAT_EXTENSIONS: Record<PuzzleFormat, string> = {
+  line: "txt",
+  grid: "txt",
+  sdk: "sdk",
+  csv: "csv",
+  candidates: "txt"
+};
+
+const CANDIDATES_MARKER = "# PuzzleSnap candidates v1";
+const CANDIDATES_HEADER = `${CANDIDATES_MARKER}: 5 = given, +5 = entry, (125) = notes, . = empty`;
+
+const SEPARATOR_LINE = /^[\s\-+=|]*$/;
+
+function readCellChar(char: string, position: number): number | null {
+  if (char >= "1" && char <= "9") {
+    return Number.parseInt(char, 10);
+  }
+  if (char === "." || char === "0" || char === "_" || char === "*") {
+    return null;
+  }
+  throw new Error(`Unexpected character '${char}' at cell ${position + 1}.`);
+}
+
+function contentLines(text: string): string[] {
+  // SadMan .sdk files and our own exports put metadata on lines starting with "#".
+  return text
+    .split(/\r?\n/)
+    .filter((line) => !line.trimStart().startsWith("#"))
+    .filter((line) => !SEPARATOR_LINE.test(line));
+}
+
+// Spreadsheets in locales with a decimal comma export semicolon-separated CSV.
+const CSV_SEPARATOR = /[,;]/;
+
+function parseCsv(lines: string[]): BoardValues {
+  if (lines.length !== 9) {
+    throw new Error(`CSV needs 9 rows, found ${lines.length}.`);
+  }
+  return lines.flatMap((line, row) => {
+    const fields = line.split(CSV_SEPARATOR).map((field) => field.trim().replace(/^"|"$/g, ""));
+    if (fields.length !== 9) {
+      throw new Error(`CSV row ${row + 1} needs 9 fields, found ${fields.length}.`);
+    }
+    return fields.map((field, col) => (field === "" ? null : readCellChar(field, row * 9 + col)));
+  });
+}
+
+function parseCandidateTokens(tokens: string[]): PuzzleDocument {
+  const givens: BoardValues = [];
+  const values: BoardValues = [];
+  const notes = createEmptyNotes();
+
+  tokens.forEach((token, index) => {
+    const entry = /^\+([1-9])$/.exec(token);
+    const marked = /^[([{]([1-9]*)[)\]}]$/.exec(token);
+    if (entry) {
+      givens.push(null);
+      values.push(Number.parseInt(entry[1], 10));
+    } else if (marked || /^[1-9]{2,}$/.test(token)) {
+      // Plain digit runs are how most tools write pencil-mark grids.
+      const digits = marked ? marked[1] : token;
+      givens.push(null);
+      values.push(null);
+      for (const char of digits) {
+        notes[index] |= bitForDigit(Number.parseInt(char, 10));
+      }
+    } else if (token.length === 1) {
+      const value = readCellChar(token, index);
+      givens.push(value);
+      values.push(value);
+    } else {
+      throw new Error(`Unexpected token '${token}' at cell ${index + 1}.`);
+    }
+  });
+
+  return { givens, values, notes };
+}
+
+export function parsePuzzleText(text: string): ParsedPuzzle {
+  const lines = contentLines(text);
+  if (lines.length === 0) {
+    throw new Error("No puzzle found in the text.");
+  }
+
+  if (lines.some((line) => CSV_SEPARATOR.test(line))) {
+    const values = parseCsv(lines.map((line) => line.trim()));
+    return { format: "csv", givens: values, values: [...values], notes: createEmptyNotes() };
+  }
+
+  const tokens = lines.flatMap((line) => line.replace(/\|/g, " ").trim().split(/\s+/).filter(Boolean));
+  if (tokens.length === CELL_COUNT && (text.includes(CANDIDATES_MARKER) || tokens.some((token) => token.length > 1))) {
+    return { format: "candidates", ...parseCandidateTokens(tokens) };
+  }
+
+  const cells = tokens.join("");
+  if (cells.length !== CELL_COUNT) {
+    throw new Error(`Expected 81 cells, found ${cells.length}.`);
+  }
+  const values = Array.from(cells, readCellChar);
+  const format: PuzzleFormat = lines.length === 1 ? "line" : text.includes("#") ? "sdk" : "grid";
+  return { format, givens: values, values: [...values], notes: createEmptyNotes() };
+}
+
+function rowsOf<T>(cells: T[]): T[][] {
+  return Array.from({ length: 9 }, (_, row) => cells.slice(row * 9, row * 9 + 9));
+}
+
+function formatGrid(values: BoardValues): string {
+  const lines: string[] = [];
+  rowsOf(values).forEach((row, index) => {
+    if (index === 3 || index === 6) {
+      lines.push("------+-------+------");
+    }
+    const boxes = [0, 3, 6].map((start) =>
+      row
+        .slice(start, start + 3)
+        .map((value) => (value === null ? "." : String(value)))
+        .join(" ")
+    );
+    lines.push(boxes.join(" | "));
+  });
+  return lines.join("\n");
+}
+
+function formatCandidates(document: PuzzleDocument): string {
+  const tokens = document.values.map((value, index) => {
+    if (document.givens[index] !== null) {
+      return String(document.givens[index]);
+    }
+    if (value !== null) {
+      return `+${value}`;
+    }
+    const digits = digitsFromMask(document.notes[index]);
+    return digits.length > 0 ? `(${digits.join("")})` : ".";
+  });
+  const width = Math.max(...tokens.map((token) => token.length));
+  const lines = [CANDIDATES_HEADER];
+  rowsOf(tokens).forEach((row, index) => {
+    if (index === 3 || index === 6) {
+      lines.push(Array(3).fill("-".repeat(3 * (width + 1) + 1)).join("+"));
+    }
+    const boxes = [0, 3, 6].map((start) => ` ${row.slice(start, start + 3).map((token) => token.padEnd(width)).join(" ")} `);
+    lines.push(boxes.join("|").trimEnd());
+  });
+  return lines.join("\n");
+}
+
+// Plain formats carry one board: the givens, or the givens plus entries when
+// `includeProgress` is set. Only the candidates format keeps the two apart.
+export function formatPuzzle(document: PuzzleDocument, format: PuzzleFormat, includeProgress = false): string {
+  const board = includeProgress ? document.values : document.givens;
+  if (format === "line") {
+    return board.map((value) => (value === null ? "." : String(value))).join("");
+  }
+  if (format === "grid") {
+    return formatGrid(board);
+  }
+  if (format === "sdk") {
+    const rows = rowsOf(board).map((row) => row.map((value) => (value === null ? "." : String(value))).join(""));
+    return ["#D Exported from PuzzleSnap", ...rows].join("\n");
+  }
+  if (format === "csv") {
+    return rowsOf(board)
+      .map((row) => row.map((value) => (value === null ? "" : String(value))).join(","))
+      .join("\n");
+  }
+  return formatCandidates(includeProgress ? document : { ...document, values: document.givens, notes: createEmptyNotes() });
+}
+
+export function hasProgress(document: PuzzleDocument): boolean {
+  return document.values.some((value, index) => value !== document.givens[index]) || document.notes.some((mask) => mask !== 0);
+}
@@ -0,0 +1,194 @@
+import { CELL_COUNT, createEmptyValues, toIndex, toRowCol, type BoardValues } from "@/lib/sudoku";
+import { DIFFICULTY_LABELS, rateDifficulty, type DifficultyLabel, type DifficultyRating } from "@/lib/sudoku-difficulty";
+import { solveSudoku } from "@/lib/sudoku-solver";
+
+export type PuzzleSymmetry = "none" | "rotational" | "diagonal";
+
+export const PUZZLE_SYMMETRIES: PuzzleSymmetry[] = ["none", "rotational", "diagonal"];
+
+export type GeneratorOptions = {
+  difficulty: DifficultyLabel;
+  symmetry?: PuzzleSymmetry;
+  seed?: string;
+  maxAttempts?: number;
+};
+
+export type GeneratedPuzzle = {
+  givens: BoardValues;
+  solution: BoardValues;
+  rating: DifficultyRating;
+  seed: string;
+  symmetry: PuzzleSymmetry;
+  attempts: number;
+};
+
+type Random = () => number;
+
+function hashSeed(seed: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i += 1) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: tiny, fast and good enough for shuffling cells.
+function createRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export function createSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function createSolution(random: Random): BoardValues {
+  // The diagonal boxes share no row, column or box, so any fill of them is consistent.
+  const values = createEmptyValues();
+  for (const box of [0, 4, 8]) {
+    const digits = shuffle([1, 2, 3, 4, 5, 6, 7, 8, 9], random);
+    const top = Math.floor(box / 3) * 3;
+    const left = (box % 3) * 3;
+    digits.forEach((digit, offset) => {
+      values[toIndex(top + Math.floor(offset / 3), left + (offset % 3))] = digit;
+    });
+  }
+  const solved = solveSudoku(values, 1).solution;
+  if (!solved) {
+    throw new Error("Could not complete a generated grid.");
+  }
+  return solved;
+}
+
+function symmetricCells(index: number, symmetry: PuzzleSymmetry): number[] {
+  if (symmetry === "rotational") {
+    const mirror = CELL_COUNT - 1 - index;
+    return mirror === index ? [index] : [index, mirror];
+  }
+  if (symmetry === "diagonal") {
+    const { row, col } = toRowCol(index);
+    const mirror = toIndex(col, row);
+    return mirror === index ? [index] : [index, mirror];
+  }
+  return [index];
+}
+
+const DEEPEN_ROUNDS = 600;
+
+function difficultyLevel(label: DifficultyLabel): number {
+  return DIFFICULTY_LABELS.indexOf(label);
+}
+
+function symmetricGroups(symmetry: PuzzleSymmetry): number[][] {
+  return Array.from({ length: CELL_COUNT }, (_, index) => symmetricCells(index, symmetry)).filter(
+    (group) => group[0] === Math.min(...group)
+  );
+}
+
+function setCells(givens: BoardValues, group: number[], from: BoardValues | null): void {
+  for (const cell of group) {
+    givens[cell] = from ? from[cell] : null;
+  }
+}
+
+// The rating of a complete grid, which needs no steps at all.
+const FULL_GRID_RATING: DifficultyRating = { label: "Easy", hardestTechnique: null, steps: 0, solvedLogically: true };
+
+function carvePuzzle(
+  solution: BoardValues,
+  target: DifficultyLabel,
+  symmetry: PuzzleSymmetry,
+  random: Random
+): { givens: BoardValues; rating: DifficultyRating } {
+  const givens = [...solution];
+  const targetLevel = difficultyLevel(target);
+  let rating = FULL_GRID_RATING;
+  // rateDifficulty returns null once the solution is no longer unique.
+  const rateWithin = (): DifficultyRating | null => {
+    const next = rateDifficulty(givens);
+    return next && difficultyLevel(next.label) <= targetLevel ? next : null;
+  };
+
+  const groups = shuffle(symmetricGroups(symmetry), random);
+  for (const group of groups) {
+    setCells(givens, group, null);
+    const next = rateWithin();
+    if (next) {
+      rating = next;
+    } else {
+      setCells(givens, group, solution);
+    }
+  }
+
+  // A carved grid usually stops a level short: no single removal is allowed, yet a harder
+  // puzzle is close by. Swapping one removed group back for a different one walks along
+  // puzzles of the same or a higher rating until the target is reached.
+  for (let round = 0; round < DEEPEN_ROUNDS && rating.label !== target; round += 1) {
+    const removed = groups.filter((group) => givens[group[0]] === null);
+    const kept = groups.filter((group) => givens[group[0]] !== null);
+    if (removed.length === 0 || kept.length === 0) {
+      break;
+    }
+    const restore = removed[Math.floor(random() * removed.length)];
+    const drop = kept[Math.floor(random() * kept.length)];
+    setCells(givens, restore, solution);
+    setCells(givens, drop, null);
+    const next = rateWithin();
+    if (next && difficultyLevel(next.label) >= difficultyLevel(rating.label)) {
+      rating = next;
+    } else {
+      setCells(givens, drop, solution);
+      setCells(givens, restore, null);
+    }
+  }
+
+  return { givens, rating };
+}
+
+// Puzzles are carved from a random full grid, removing symmetric groups of cells while the
+// solution stays unique and the rating stays at or below the target, then swapping groups to
+// climb to the target. Attempts that still land below it are retried with a fresh grid; if
+// none reach it, the hardest attempt found is returned.
+export function generatePuzzle({
+  difficulty,
+  symmetry = "rotational",
+  seed = createSeed(),
+  maxAttempts = 20
+}: GeneratorOptions): GeneratedPuzzle {
+  const random = createRandom(`${seed}:${difficulty}:${symmetry}`);
+  const attempt = (attempts: number): GeneratedPuzzle => {
+    const solution = createSolution(random);
+    const { givens, rating } = carvePuzzle(solution, difficulty, symmetry, random);
+    return { givens, solution, rating, seed, symmetry, attempts };
+  };
+
+  let best = attempt(1);
+  let attempts = 1;
+  while (best.rating.label !== difficulty && attempts < maxAttempts) {
+    attempts += 1;
+    const next = attempt(attempts);
+    if (difficultyLevel(next.rating.label) > difficultyLevel(best.rating.label)) {
+      best = next;
+    }
+  }
+
+  return { ...best, attempts };
+}
+
+export type GeneratorWorkerMessage = { type: "result"; puzzle: GeneratedPuzzle } | { type: "error"; message: string };
@@ -0,0 +1,13 @@
+import { generatePuzzle, type GeneratorOptions, type GeneratorWorkerMessage } from "@/lib/sudoku-generator";
+
+const post = (message: GeneratorWorkerMessage) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<GeneratorOptions>) => {
+  try {
+    post({ type: "result", puzzle: generatePuzzle(event.data) });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : "Puzzle generation failed" });
+  }
+};
@@ -0,0 +1,245 @@
+import { CELL_COUNT, computeConflictMask, createEmptyValues, type BoardValues } from "@/lib/sudoku";
+import { solveSudoku } from "@/lib/sudoku-solver";
+
+export type DigitCandidate = {
+  digit: number;
+  confidence: number;
+};
+
+export type RecognitionCorrection = {
+  index: number;
+  from: number | null;
+  to: number | null;
+  reason: string;
+};
+
+export type CorrectionOptions = {
+  minConfidence?: number;
+  maxChanges?: number;
+  maxSolves?: number;
+  maxNodes?: number;
+};
+
+export type CorrectionResult = {
+  values: BoardValues;
+  corrections: RecognitionCorrection[];
+  unique: boolean;
+};
+
+type Trigger = "conflict" | "unsolvable";
+
+type Change = {
+  index: number;
+  to: number | null;
+  cost: number;
+  trigger: Trigger;
+};
+
+type SearchNode = {
+  changes: Change[];
+  cost: number;
+};
+
+const TRIGGER_TEXT: Record<Trigger, string> = {
+  conflict: "Conflicted with a peer",
+  unsolvable: "Puzzle had no solution"
+};
+
+function percent(confidence: number): string {
+  return `${Math.round(confidence)}%`;
+}
+
+function confidenceOf(candidates: DigitCandidate[], digit: number | null): number {
+  return candidates.find((candidate) => candidate.digit === digit)?.confidence ?? 0;
+}
+
+function describeChange(candidates: DigitCandidate[], from: number | null, change: Change): string {
+  const trigger = TRIGGER_TEXT[change.trigger];
+  const fromText = `${from} (${percent(confidenceOf(candidates, from))})`;
+  if (change.to === null) {
+    return `${trigger}; removed ${fromText}.`;
+  }
+  return `${trigger}; runner-up ${change.to} (${percent(confidenceOf(candidates, change.to))}) replaced ${fromText}.`;
+}
+
+// Binary min-heap on cost, so each pop is O(log n) however large the frontier gets.
+function pushNode(heap: SearchNode[], node: SearchNode): void {
+  heap.push(node);
+  let child = heap.length - 1;
+  while (child > 0) {
+    const parent = (child - 1) >> 1;
+    if (heap[parent].cost <= heap[child].cost) {
+      break;
+    }
+    [heap[parent], heap[child]] = [heap[child], heap[parent]];
+    child = parent;
+  }
+}
+
+function popNode(heap: SearchNode[]): SearchNode | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || last === undefined) {
+    return top;
+  }
+  heap[0] = last;
+  let parent = 0;
+  for (;;) {
+    const left = parent * 2 + 1;
+    const right = left + 1;
+    let smallest = parent;
+    if (left < heap.length && heap[left].cost < heap[smallest].cost) {
+      smallest = left;
+    }
+    if (right < heap.length && heap[right].cost < heap[smallest].cost) {
+      smallest = right;
+    }
+    if (smallest === parent) {
+      return top;
+    }
+    [heap[parent], heap[smallest]] = [heap[smallest], heap[parent]];
+    parent = smallest;
+  }
+}
+
+// Only digits OCR actually read are swapped or dropped; an empty cell is never filled in,
+// since that would invent a given.
+function optionsForCell(candidates: DigitCandidate[], base: number, index: number, trigger: Trigger): Change[] {
+  const baseConfidence = confidenceOf(candidates, base);
+  const options: Change[] = candidates
+    .filter((candidate) => candidate.digit !== base)
+    .map((candidate) => ({
+      index,
+      to: candidate.digit,
+      cost: Math.max(1, baseConfidence - candidate.confidence),
+      trigger
+    }));
+  options.push({ index, to: null, cost: Math.max(1, baseConfidence), trigger });
+  return options;
+}
+
+export function resolveRecognizedDigits(
+  candidates: DigitCandidate[][],
+  options: CorrectionOptions = {}
+): CorrectionResult {
+  const minConfidence = options.minConfidence ?? 16;
+  const maxChanges = options.maxChanges ?? 3;
+  const maxSolves = options.maxSolves ?? 600;
+  const maxNodes = options.maxNodes ?? 4000;
+
+  const base = createEmptyValues();
+  for (let index = 0; index < CELL_COUNT; index += 1) {
+    const best = candidates[index]?.[0];
+    if (best && best.confidence > minConfidence) {
+      base[index] = best.digit;
+    }
+  }
+
+  const cache = new Map<string, number>();
+  let solves = 0;
+  const countFor = (values: BoardValues): number => {
+    const key = values.map((value) => value ?? 0).join("");
+    const cached = cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    solves += 1;
+    const count = solveSudoku(values, 2).solutionCount;
+    cache.set(key, count);
+    return count;
+  };
+
+  const apply = (changes: Change[]): BoardValues => {
+    const values = [...base];
+    for (const change of changes) {
+      values[change.index] = change.to;
+    }
+    return values;
+  };
+
+  const targetsFor = (
+    values: BoardValues,
+    count: number,
+    changed: Set<number>
+  ): { cells: number[]; trigger: Trigger } | null => {
+    const conflictMask = computeConflictMask(values);
+    const conflicts = conflictMask.flatMap((conflict, index) => (conflict && !changed.has(index) ? [index] : []));
+    if (conflicts.length > 0) {
+      return { cells: conflicts, trigger: "conflict" };
+    }
+
+    if (count === 0) {
+      const culprits: number[] = [];
+      for (let index = 0; index < CELL_COUNT && solves < maxSolves; index += 1) {
+        if (values[index] === null || changed.has(index)) {
+          continue;
+        }
+        const without = [...values];
+        without[index] = null;
+        if (countFor(without) > 0) {
+          culprits.push(index);
+        }
+      }
+      return { cells: culprits, trigger: "unsolvable" };
+    }
+
+    // Several solutions mean a given was missed; only adding digits could fix that.
+    return null;
+  };
+
+  const frontier: SearchNode[] = [{ changes: [], cost: 0 }];
+  const visited = new Set<string>();
+
+  // Cache hits cost no solve, so the node count is what bounds the search.
+  while (solves < maxSolves) {
+    const node = popNode(frontier);
+    if (!node) {
+      break;
+    }
+    const values = apply(node.changes);
+    const count = countFor(values);
+
+    if (count === 1) {
+      return {
+        values,
+        unique: true,
+        corrections: node.changes.map((change) => ({
+          index: change.index,
+          from: base[change.index],
+          to: change.to,
+          reason: describeChange(candidates[change.index] ?? [], base[change.index], change)
+        }))
+      };
+    }
+
+    if (node.changes.length >= maxChanges) {
+      continue;
+    }
+
+    const changed = new Set(node.changes.map((change) => change.index));
+    const targets = targetsFor(values, count, changed);
+    if (!targets) {
+      continue;
+    }
+    for (const index of targets.cells) {
+      const read = base[index];
+      if (read === null) {
+        continue;
+      }
+      for (const option of optionsForCell(candidates[index] ?? [], read, index, targets.trigger)) {
+        if (visited.size >= maxNodes) {
+          break;
+        }
+        const changes = [...node.changes, option].sort((a, b) => a.index - b.index);
+        const key = changes.map((change) => `${change.index}:${change.to ?? 0}`).join(",");
+        if (visited.has(key)) {
+          continue;
+        }
+        visited.add(key);
+        pushNode(frontier, { changes, cost: node.cost + option.cost });
+      }
+    }
+  }
+
+  return { values: base, corrections: [], unique: false };
+}
@@ -0,0 +1,1628 @@
+import { bitForDigit, type BoardValues } from "@/lib/sudoku";
+import {
+  classifyWriting,
+  enlargeComponent,
+  findPencilMarks,
+  markSlot,
+  measureInkTone,
+  tallestInkHeight,
+  type InkComponent,
+  type InkTone
+} from "@/lib/sudoku-cell-marks";
+import { createTemplateRecognizer, type DigitSample } from "@/lib/sudoku-digit-templates";
+import { resolveRecognizedDigits, type DigitCandidate } from "@/lib/sudoku-ocr-correction";
+import { type Worker as OcrWorker } from "tesseract.js";
+import {
+  type CellInkStats,
+  type DigitRecognizer,
+  type DigitRecognizerId,
+  type RecognizeOptions,
+  type RecognizedCell,
+  type RecognizedCellKind,
+  type SudokuRecognitionProgress,
+  type SudokuRecognitionResult
+} from "@/lib/sudoku-recognition";
+
+type Point = { x: number; y: number };
+
+type OcrPageLike = {
+  text: string;
+  confidence: number;
+  blocks: {
+    paragraphs: {
+      lines: {
+        words: {
+          choices: { text: string; confidence: number }[];
+        }[];
+      }[];
+    }[];
+  }[] | null;
+};
+
+// OffscreenCanvas inside the worker; a DOM canvas when recognition has to run on the page.
+type RecognitionCanvas = OffscreenCanvas | HTMLCanvasElement;
+type RecognitionContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+type CornerQuad = {
+  topLeft: Point;
+  topRight: Point;
+  bottomLeft: Point;
+  bottomRight: Point;
+};
+
+type OpenCVLike = {
+  Mat: new () => {
+    rows: number;
+    cols: number;
+    data32S: Int32Array;
+    delete: () => void;
+  };
+  MatVector: new () => {
+    size: () => number;
+    get: (index: number) => {
+      rows: number;
+      data32S: Int32Array;
+      delete: () => void;
+    };
+    delete: () => void;
+  };
+  Size: new (width: number, height: number) => unknown;
+  matFromImageData: (image: ImageData) => {
+    cols: number;
+    rows: number;
+    delete: () => void;
+  };
+  cvtColor: (
+    src: { delete: () => void },
+    dst: { delete: () => void },
+    code: number
+  ) => void;
+  GaussianBlur: (
+    src: { delete: () => void },
+    dst: { delete: () => void },
+    ksize: unknown,
+    sigmaX: number,
+    sigmaY: number,
+    borderType: number
+  ) => void;
+  adaptiveThreshold: (
+    src: { delete: () => void },
+    dst: { delete: () => void },
+    maxValue: number,
+    adaptiveMethod: number,
+    thresholdType: number,
+    blockSize: number,
+    c: number
+  ) => void;
+  findContours: (
+    image: { delete: () => void },
+    contours: { delete: () => void },
+    hierarchy: { delete: () => void },
+    mode: number,
+    method: number
+  ) => void;
+  contourArea: (contour: { delete: () => void }) => number;
+  arcLength: (contour: { delete: () => void }, closed: boolean) => number;
+  approxPolyDP: (
+    curve: { delete: () => void },
+    approxCurve: { rows: number; data32S: Int32Array; delete: () => void },
+    epsilon: number,
+    closed: boolean
+  ) => void;
+  isContourConvex: (contour: { delete: () => void }) => boolean;
+  COLOR_RGBA2GRAY: number;
+  ADAPTIVE_THRESH_GAUSSIAN_C: number;
+  THRESH_BINARY_INV: number;
+  RETR_EXTERNAL: number;
+  CHAIN_APPROX_SIMPLE: number;
+  BORDER_DEFAULT: number;
+};
+
+type OpenCVModule = OpenCVLike & {
+  onRuntimeInitialized?: () => void;
+};
+
+type OpenCVScope = typeof globalThis & {
+  // In a worker, opencv.js leaves its module factory here instead of the module itself.
+  cv?: OpenCVModule | (() => OpenCVModule);
+  importScripts?: (...urls: string[]) => void;
+};
+
+type RecognitionEngine = "tesseract" | "opencv";
+
+type OpenCVLoad = { cv: OpenCVLike; reason?: undefined } | { cv: null; reason: string };
+
+// Chosen at build time (RECOGNITION_ENGINES) and copied into public/vendor by
+// scripts/copy-recognition-assets.mjs; nothing is fetched from a CDN.
+const BUNDLED_ENGINES = new Set(
+  (process.env.RECOGNITION_ENGINES ?? "tesseract,opencv").split(",").map((engine) => engine.trim())
+);
+
+// Only a safety net: OpenCV normally reports ready within a few seconds, and without this
+// a module that never does would hold up recognition for good.
+const OPENCV_TIMEOUT_MS = 20000;
+
+// Tesseract workers are single-threaded, so a few of them read cells side by side.
+// Each one holds its own copy of the engine, which is why the pool stays small.
+const OCR_POOL_SIZE =
+  typeof navigator === "undefined" ? 2 : Math.max(1, Math.min(3, (navigator.hardwareConcurrency || 2) - 1));
+
+let ocrPoolPromise: Promise<OcrWorker[]> | null = null;
+let ocrPoolSize = 0;
+let templateRecognizer: DigitRecognizer | null = null;
+let openCvLoaderPromise: Promise<OpenCVLoad> | null = null;
+
+function orderCorners(points: Point[]): CornerQuad {
+  const sortedByY = [...points].sort((a, b) => a.y - b.y);
+  const topTwo = sortedByY.slice(0, 2).sort((a, b) => a.x - b.x);
+  const bottomTwo = sortedByY.slice(2, 4).sort((a, b) => a.x - b.x);
+  return {
+    topLeft: topTwo[0],
+    topRight: topTwo[1],
+    bottomRight: bottomTwo[1],
+    bottomLeft: bottomTwo[0]
+  };
+}
+
+function isEngineBundled(engine: RecognitionEngine): boolean {
+  return BUNDLED_ENGINES.has(engine);
+}
+
+// Absolute, because the recognition worker runs from a blob: URL that relative paths cannot resolve against.
+function vendorUrl(path: string): string {
+  return new URL(`/vendor/${path}`, globalThis.location.origin).toString();
+}
+
+function waitForOpenCV(scope: OpenCVScope): Promise<OpenCVLoad> {
+  // In a worker the opencv.js wrapper stores its factory without calling it. What the factory
+  // returns is a thenable whose then() passes back itself, so it is never awaited: readiness
+  // comes from Mat or onRuntimeInitialized as in the page.
+  if (typeof scope.cv === "function") {
+    scope.cv = scope.cv();
+  }
+  const opencv = scope.cv;
+  return new Promise<OpenCVLoad>((resolve) => {
+    const unavailable = { cv: null, reason: "OpenCV loaded but did not start" };
+    if (opencv?.Mat) {
+      resolve({ cv: opencv });
+    } else if (opencv) {
+      const timer = setTimeout(
+        () => resolve({ cv: null, reason: "OpenCV did not start in time" }),
+        OPENCV_TIMEOUT_MS
+      );
+      opencv.onRuntimeInitialized = () => {
+        clearTimeout(timer);
+        resolve(opencv.Mat ? { cv: opencv } : unavailable);
+      };
+    } else {
+      resolve(unavailable);
+    }
+  });
+}
+
+function loadOpenCV(): Promise<OpenCVLoad> {
+  const scope = globalThis as OpenCVScope;
+  if (!isEngineBundled("opencv")) {
+    return Promise.resolve({ cv: null, reason: "OpenCV is not included in this build" });
+  }
+  if (typeof scope.cv === "object" && scope.cv.Mat) {
+    return Promise.resolve({ cv: scope.cv });
+  }
+  if (openCvLoaderPromise) {
+    return openCvLoaderPromise;
+  }
+
+  if (typeof document === "undefined") {
+    // Inside the recognition worker there is no <script>; classic workers can pull it in synchronously.
+    if (typeof scope.importScripts !== "function") {
+      return Promise.resolve({ cv: null, reason: "OpenCV cannot load inside this browser's worker" });
+    }
+    try {
+      scope.importScripts(vendorUrl("opencv/opencv.js"));
+    } catch {
+      return Promise.resolve({ cv: null, reason: "OpenCV failed to load" });
+    }
+    openCvLoaderPromise = waitForOpenCV(scope);
+    return openCvLoaderPromise;
+  }
+
+  openCvLoaderPromise = new Promise<OpenCVLoad>((resolve) => {
+    const script = document.createElement("script");
+    script.id = "opencv-js-loader";
+    script.async = true;
+    script.src = vendorUrl("opencv/opencv.js");
+    script.onload = () => {
+      void waitForOpenCV(scope).then(resolve);
+    };
+    script.onerror = () => {
+      // Let a later recognition try again, e.g. once the connection is back.
+      openCvLoaderPromise = null;
+      script.remove();
+      resolve({ cv: null, reason: "OpenCV failed to load" });
+    };
+    document.head.appendChild(script);
+  });
+
+  return openCvLoaderPromise;
+}
+
+async function createOcrWorker(): Promise<OcrWorker> {
+  const tesseract = await import("tesseract.js");
+  const worker = await tesseract.createWorker("eng", tesseract.OEM.LSTM_ONLY, {
+    workerPath: vendorUrl("tesseract/worker.min.js"),
+    corePath: vendorUrl("tesseract"),
+    langPath: vendorUrl("tesseract/lang")
+  });
+  await worker.setParameters({
+    tessedit_pageseg_mode: tesseract.PSM.SINGLE_CHAR,
+    tessedit_char_whitelist: "123456789"
+  });
+  return worker;
+}
+
+// Starting Tesseract takes seconds, so the pool is created once and serves every recognition in this scope.
+// Asking for a different size replaces it.
+function getOcrPool(size: number): Promise<OcrWorker[]> {
+  if (!isEngineBundled("tesseract")) {
+    return Promise.reject(new Error("Digit recognition is unavailable: Tesseract is not included in this build."));
+  }
+  if (ocrPoolPromise && ocrPoolSize !== size) {
+    void releaseOcrPool();
+  }
+  if (!ocrPoolPromise) {
+    ocrPoolSize = size;
+    ocrPoolPromise = Promise.all(Array.from({ length: size }, createOcrWorker)).catch(() => {
+      ocrPoolPromise = null;
+      throw new Error("Digit recognition is unavailable: the Tesseract engine failed to load.");
+    });
+  }
+  return ocrPoolPromise;
+}
+
+export async function releaseOcrPool(): Promise<void> {
+  const pending = ocrPoolPromise;
+  ocrPoolPromise = null;
+  if (pending) {
+    await Promise.all((await pending).map((worker) => worker.terminate()));
+  }
+}
+
+// Each pooled worker is a lane with its own canvas; a cell waits for a free lane.
+function createTesseractRecognizer(pool: OcrWorker[]): DigitRecognizer {
+  const free = pool.map((worker) => ({ worker, canvas: createCanvas(72, 72) }));
+  const waiting: (() => void)[] = [];
+
+  return {
+    id: "tesseract",
+    concurrency: pool.length,
+    readCell: async (cell) => {
+      while (free.length === 0) {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+      const lane = free.pop()!;
+      try {
+        const ctx = getContext2d(lane.canvas);
+        if (!ctx) {
+          throw new Error("Scratch canvas failed");
+        }
+        ctx.putImageData(cell, 0, 0);
+        const result = await lane.worker.recognize(lane.canvas, {}, { blocks: true });
+        const readings = new Map<number, number>();
+        collectDigitCandidates(result.data, readings);
+        return rankDigitCandidates(readings);
+      } finally {
+        free.push(lane);
+        waiting.shift()?.();
+      }
+    }
+  };
+}
+
+const TEMPLATE_FONTS = ["sans-serif", "serif", "monospace"];
+const TEMPLATE_WEIGHTS = ["normal", "bold"];
+
+// Puzzle apps and newspapers print digits in ordinary fonts, so rendering 1-9 in the
+// generic families (and through the same binarization as real cells) gives usable templates.
+function renderDigitSamples(): DigitSample[] {
+  const canvas = createCanvas(72, 72);
+  const ctx = getContext2d(canvas);
+  if (!ctx) {
+    throw new Error("Scratch canvas failed");
+  }
+  const samples: DigitSample[] = [];
+  for (const family of TEMPLATE_FONTS) {
+    for (const weight of TEMPLATE_WEIGHTS) {
+      for (let digit = 1; digit <= 9; digit += 1) {
+        ctx.fillStyle = "white";
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.fillStyle = "black";
+        ctx.font = `${weight} 44px ${family}`;
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(String(digit), 36, 38);
+        const image = readCanvasPixels(canvas);
+        if (image) {
+          samples.push({ digit, image: prepareCellBinary(image, canvas.width, canvas.height, 0.9, 1.1, true) });
+        }
+      }
+    }
+  }
+  return samples;
+}
+
+function getTemplateRecognizer(): DigitRecognizer {
+  templateRecognizer ??= createTemplateRecognizer(renderDigitSamples());
+  return templateRecognizer;
+}
+
+async function getDigitRecognizer(id: DigitRecognizerId, ocrWorkers: number): Promise<DigitRecognizer> {
+  return id === "tesseract" ? createTesseractRecognizer(await getOcrPool(ocrWorkers)) : getTemplateRecognizer();
+}
+
+function createCanvas(width: number, height: number): RecognitionCanvas {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function getContext2d(canvas: RecognitionCanvas, willReadFrequently = true): RecognitionContext | null {
+  return canvas.getContext("2d", { willReadFrequently }) as RecognitionContext | null;
+}
+
+function readCanvasPixels(canvas: RecognitionCanvas): ImageData | null {
+  return getContext2d(canvas)?.getImageData(0, 0, canvas.width, canvas.height) ?? null;
+}
+
+async function canvasToDataUrl(canvas: RecognitionCanvas, type: string, quality?: number): Promise<string> {
+  if (!("convertToBlob" in canvas)) {
+    return canvas.toDataURL(type, quality);
+  }
+  const blob = await canvas.convertToBlob({ type, quality });
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Could not encode image"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+function pruneConflictingDetections(
+  values: BoardValues,
+  confidences: number[],
+  highConfidence = 86
+): { values: BoardValues; dropped: number[] } {
+  const nextValues = [...values];
+  const nextConf = [...confidences];
+  const dropped: number[] = [];
+
+  const peerIndexes = (index: number): number[] => {
+    const row = Math.floor(index / 9);
+    const col = index % 9;
+    const peers: number[] = [];
+    for (let i = 0; i < 81; i += 1) {
+      if (i === index || nextValues[i] === null) {
+        continue;
+      }
+      const r = Math.floor(i / 9);
+      const c = i % 9;
+      const sameRow = r === row;
+      const sameCol = c === col;
+      const sameBox = Math.floor(r / 3) === Math.floor(row / 3) && Math.floor(c / 3) === Math.floor(col / 3);
+      if ((sameRow || sameCol || sameBox) && nextValues[i] === nextValues[index]) {
+        peers.push(i);
+      }
+    }
+    return peers;
+  };
+
+  for (let guard = 0; guard < 200; guard += 1) {
+    let dropIndex = -1;
+    let dropScore = Number.POSITIVE_INFINITY;
+
+    for (let i = 0; i < 81; i += 1) {
+      if (nextValues[i] === null) {
+        continue;
+      }
+      const peers = peerIndexes(i);
+      if (peers.length === 0) {
+        continue;
+      }
+
+      const selfConfidence = nextConf[i] ?? 0;
+      const peerMax = peers.reduce((acc, peer) => Math.max(acc, nextConf[peer] ?? 0), 0);
+      const isVeryHigh = selfConfidence >= highConfidence;
+      const protectedPenalty = isVeryHigh && selfConfidence >= peerMax ? 1000 : 0;
+      const score = selfConfidence + protectedPenalty;
+
+      if (score < dropScore) {
+        dropScore = score;
+        dropIndex = i;
+      }
+    }
+
+    if (dropIndex < 0) {
+      break;
+    }
+
+    nextValues[dropIndex] = null;
+    nextConf[dropIndex] = 0;
+    dropped.push(dropIndex);
+  }
+
+  return { values: nextValues, dropped };
+}
+
+const CANDIDATES_PER_CELL = 3;
+const MIN_DIGIT_CONFIDENCE = 16;
+// Tiny marks read poorly, so a mark in the spot of the 3x3 layout that belongs to one of
+// its candidates is taken as that digit unless another reads clearly better. Otherwise it
+// needs a clearer reading than a full digit.
+const MIN_MARK_CONFIDENCE = 40;
+const MARK_SLOT_MARGIN = 15;
+// Ink much shorter than the puzzle's typical digit is a pencil mark, not an entry.
+const MARK_HEIGHT_RATIO = 0.7;
+
+function collectDigitCandidates(page: OcrPageLike, into: Map<number, number>): void {
+  const add = (text: string, confidence: number) => {
+    const match = text.match(/[1-9]/);
+    if (!match) {
+      return;
+    }
+    const digit = Number.parseInt(match[0], 10);
+    into.set(digit, Math.max(into.get(digit) ?? 0, confidence));
+  };
+
+  add(page.text, page.confidence);
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          for (const choice of word.choices) {
+            add(choice.text, choice.confidence);
+          }
+        }
+      }
+    }
+  }
+}
+
+function mergeDigitCandidates(into: Map<number, number>, candidates: DigitCandidate[]): void {
+  for (const { digit, confidence } of candidates) {
+    into.set(digit, Math.max(into.get(digit) ?? 0, confidence));
+  }
+}
+
+function rankDigitCandidates(readings: Map<number, number>): DigitCandidate[] {
+  return Array.from(readings, ([digit, confidence]) => ({ digit, confidence }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, CANDIDATES_PER_CELL);
+}
+
+function detectCellInkStats(
+  imageData: ImageData,
+  width: number,
+  height: number
+): CellInkStats {
+  let black = 0;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  const edge = 4;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const p = (y * width + x) * 4;
+      if (imageData.data[p] < 128) {
+        black += 1;
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  if (black === 0) {
+    return { inkRatio: 0, bboxWidth: 0, bboxHeight: 0, touchesEdge: false };
+  }
+
+  const bboxWidth = maxX - minX + 1;
+  const bboxHeight = maxY - minY + 1;
+  const touchesEdge =
+    minX <= edge || minY <= edge || maxX >= width - 1 - edge || maxY >= height - 1 - edge;
+
+  return {
+    inkRatio: black / (width * height),
+    bboxWidth,
+    bboxHeight,
+    touchesEdge
+  };
+}
+
+function prepareCellBinary(
+  source: ImageData,
+  width: number,
+  height: number,
+  lumFactor: number,
+  darkFactor: number,
+  removeBorderInk: boolean
+): ImageData {
+  const imageData = new ImageData(new Uint8ClampedArray(source.data), width, height);
+  const gray = new Uint8ClampedArray(width * height);
+  const darkness = new Uint8ClampedArray(width * height);
+  for (let p = 0; p < imageData.data.length; p += 4) {
+    const r = imageData.data[p];
+    const g = imageData.data[p + 1];
+    const b = imageData.data[p + 2];
+    const lum = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    gray[p / 4] = lum;
+    darkness[p / 4] = 255 - Math.max(r, g, b);
+  }
+  const threshold = otsuThreshold(gray);
+  const darkThreshold = otsuThreshold(darkness);
+  for (let p = 0; p < imageData.data.length; p += 4) {
+    const pixel = p / 4;
+    const bw =
+      gray[pixel] < threshold * lumFactor || darkness[pixel] > darkThreshold * darkFactor ? 0 : 255;
+    imageData.data[p] = bw;
+    imageData.data[p + 1] = bw;
+    imageData.data[p + 2] = bw;
+  }
+  if (removeBorderInk) {
+    removeBorderConnectedInk(imageData, width, height);
+  }
+  return imageData;
+}
+
+function removeBorderConnectedInk(imageData: ImageData, width: number, height: number): void {
+  const visited = new Uint8Array(width * height);
+  const queue: number[] = [];
+
+  const enqueueIfBlack = (x: number, y: number) => {
+    if (x < 0 || y < 0 || x >= width || y >= height) {
+      return;
+    }
+    const idx = y * width + x;
+    if (visited[idx]) {
+      return;
+    }
+    const p = idx * 4;
+    if (imageData.data[p] >= 128) {
+      return;
+    }
+    visited[idx] = 1;
+    queue.push(idx);
+  };
+
+  for (let x = 0; x < width; x += 1) {
+    enqueueIfBlack(x, 0);
+    enqueueIfBlack(x, height - 1);
+  }
+  for (let y = 0; y < height; y += 1) {
+    enqueueIfBlack(0, y);
+    enqueueIfBlack(width - 1, y);
+  }
+
+  while (queue.length > 0) {
+    const idx = queue.pop()!;
+    const x = idx % width;
+    const y = Math.floor(idx / width);
+    const p = idx * 4;
+    imageData.data[p] = 255;
+    imageData.data[p + 1] = 255;
+    imageData.data[p + 2] = 255;
+
+    enqueueIfBlack(x - 1, y);
+    enqueueIfBlack(x + 1, y);
+    enqueueIfBlack(x, y - 1);
+    enqueueIfBlack(x, y + 1);
+  }
+}
+
+// Clears the rows and columns near the crop's edge that an unbroken run of ink crosses:
+// grid lines and the frame a highlighted cell leaves behind. Unlike removeBorderConnectedInk
+// this keeps pencil marks that touch the edge, and marks stacked along it leave gaps.
+function removeEdgeLines(imageData: ImageData, width: number, height: number): void {
+  const depth = Math.round(Math.min(width, height) * 0.1);
+  const inkAt = (x: number, y: number) => imageData.data[(y * width + x) * 4] < 128;
+  const isLine = (length: number, inkAlong: (position: number) => boolean) => {
+    let run = 0;
+    for (let position = 0; position < length; position += 1) {
+      run = inkAlong(position) ? run + 1 : 0;
+      if (run > length * 0.6) {
+        return true;
+      }
+    }
+    return false;
+  };
+  const lineRows: number[] = [];
+  const lineCols: number[] = [];
+  for (let offset = 0; offset < depth; offset += 1) {
+    for (const y of [offset, height - 1 - offset]) {
+      if (isLine(width, (x) => inkAt(x, y))) {
+        lineRows.push(y);
+      }
+    }
+    for (const x of [offset, width - 1 - offset]) {
+      if (isLine(height, (y) => inkAt(x, y))) {
+        lineCols.push(x);
+      }
+    }
+  }
+  // Found first and cleared after, so clearing a row cannot break up a column's line.
+  const clear = (x: number, y: number) => {
+    const p = (y * width + x) * 4;
+    imageData.data[p] = 255;
+    imageData.data[p + 1] = 255;
+    imageData.data[p + 2] = 255;
+  };
+  for (const y of lineRows) {
+    for (let x = 0; x < width; x += 1) {
+      clear(x, y);
+    }
+  }
+  for (const x of lineCols) {
+    for (let y = 0; y < height; y += 1) {
+      clear(x, y);
+    }
+  }
+}
+
+function findGridCorners(binaryCanvas: RecognitionCanvas): {
+  topLeft: Point;
+  topRight: Point;
+  bottomLeft: Point;
+  bottomRight: Point;
+} | null {
+  const image = readCanvasPixels(binaryCanvas);
+  if (!image) {
+    return null;
+  }
+  const { width, height } = binaryCanvas;
+
+  let topLeft: Point | null = null;
+  let topRight: Point | null = null;
+  let bottomLeft: Point | null = null;
+  let bottomRight: Point | null = null;
+  let minSum = Number.POSITIVE_INFINITY;
+  let maxSum = Number.NEGATIVE_INFINITY;
+  let minDiff = Number.POSITIVE_INFINITY;
+  let maxDiff = Number.NEGATIVE_INFINITY;
+  let blackPixels = 0;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const p = (y * width + x) * 4;
+      if (image.data[p] >= 128) {
+        continue;
+      }
+      blackPixels += 1;
+      const sum = x + y;
+      const diff = x - y;
+      if (sum < minSum) {
+        minSum = sum;
+        topLeft = { x, y };
+      }
+      if (sum > maxSum) {
+        maxSum = sum;
+        bottomRight = { x, y };
+      }
+      if (diff < minDiff) {
+        minDiff = diff;
+        bottomLeft = { x, y };
+      }
+      if (diff > maxDiff) {
+        maxDiff = diff;
+        topRight = { x, y };
+      }
+    }
+  }
+
+  if (!topLeft || !topRight || !bottomLeft || !bottomRight || blackPixels < width * height * 0.01) {
+    return null;
+  }
+
+  const diag1 = Math.hypot(bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
+  const diag2 = Math.hypot(topRight.x - bottomLeft.x, topRight.y - bottomLeft.y);
+  if (diag1 < Math.min(width, height) * 0.45 || diag2 < Math.min(width, height) * 0.45) {
+    return null;
+  }
+
+  return { topLeft, topRight, bottomLeft, bottomRight };
+}
+
+function detectCornersWithOpenCV(cv: OpenCVLike, sourceCanvas: RecognitionCanvas): CornerQuad | null {
+  const maxSize = 700;
+  const scale = Math.min(1, maxSize / Math.max(sourceCanvas.width, sourceCanvas.height));
+  const sampleCanvas = createCanvas(
+    Math.max(1, Math.floor(sourceCanvas.width * scale)),
+    Math.max(1, Math.floor(sourceCanvas.height * scale))
+  );
+  const sampleCtx = getContext2d(sampleCanvas);
+  if (!sampleCtx) {
+    return null;
+  }
+  sampleCtx.drawImage(sourceCanvas, 0, 0, sampleCanvas.width, sampleCanvas.height);
+
+  // cv.imread only understands DOM elements, so hand OpenCV the pixels directly.
+  const src = cv.matFromImageData(sampleCtx.getImageData(0, 0, sampleCanvas.width, sampleCanvas.height));
+  const gray = new cv.Mat();
+  const blurred = new cv.Mat();
+  const thresh = new cv.Mat();
+  const contours = new cv.MatVector();
+  const hierarchy = new cv.Mat();
+
+  try {
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+    cv.GaussianBlur(gray, blurred, new cv.Size(5, 5), 0, 0, cv.BORDER_DEFAULT);
+    cv.adaptiveThreshold(
+      blurred,
+      thresh,
+      255,
+      cv.ADAPTIVE_THRESH_GAUSSIAN_C,
+      cv.THRESH_BINARY_INV,
+      11,
+      2
+    );
+    cv.findContours(thresh, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+
+    const minArea = src.cols * src.rows * 0.04;
+    let bestArea = 0;
+    let bestPoints: Point[] | null = null;
+
+    for (let i = 0; i < contours.size(); i += 1) {
+      const contour = contours.get(i);
+      const area = cv.contourArea(contour);
+      if (area < minArea || area < bestArea) {
+        contour.delete();
+        continue;
+      }
+
+      const perimeter = cv.arcLength(contour, true);
+      const approx = new cv.Mat();
+      cv.approxPolyDP(contour, approx, 0.02 * perimeter, true);
+
+      if (approx.rows === 4 && cv.isContourConvex(approx)) {
+        const points: Point[] = [];
+        const data = approx.data32S;
+        for (let j = 0; j < 4; j += 1) {
+          points.push({ x: data[j * 2], y: data[j * 2 + 1] });
+        }
+        bestArea = area;
+        bestPoints = points;
+      }
+
+      approx.delete();
+      contour.delete();
+    }
+
+    if (!bestPoints) {
+      return null;
+    }
+    const ordered = orderCorners(bestPoints);
+    return {
+      topLeft: { x: ordered.topLeft.x / scale, y: ordered.topLeft.y / scale },
+      topRight: { x: ordered.topRight.x / scale, y: ordered.topRight.y / scale },
+      bottomLeft: { x: ordered.bottomLeft.x / scale, y: ordered.bottomLeft.y / scale },
+      bottomRight: { x: ordered.bottomRight.x / scale, y: ordered.bottomRight.y / scale }
+    };
+  } catch {
+    return null;
+  } finally {
+    src.delete();
+    gray.delete();
+    blurred.delete();
+    thresh.delete();
+    contours.delete();
+    hierarchy.delete();
+  }
+}
+
+function solveLinearSystem8(matrix: number[][], vector: number[]): number[] | null {
+  const n = 8;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col += 1) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row += 1) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(a[pivot][col]) < 1e-9) {
+      return null;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const pivotValue = a[col][col];
+    for (let j = col; j <= n; j += 1) {
+      a[col][j] /= pivotValue;
+    }
+
+    for (let row = 0; row < n; row += 1) {
+      if (row === col) {
+        continue;
+      }
+      const factor = a[row][col];
+      for (let j = col; j <= n; j += 1) {
+        a[row][j] -= factor * a[col][j];
+      }
+    }
+  }
+
+  return a.map((row) => row[n]);
+}
+
+function homographyFrom4Points(src: Point[], dst: Point[]): number[] | null {
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+
+  for (let i = 0; i < 4; i += 1) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    vector.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    vector.push(v);
+  }
+
+  const solution = solveLinearSystem8(matrix, vector);
+  if (!solution) {
+    return null;
+  }
+
+  return [
+    solution[0],
+    solution[1],
+    solution[2],
+    solution[3],
+    solution[4],
+    solution[5],
+    solution[6],
+    solution[7],
+    1
+  ];
+}
+
+function warpCanvasToSquare(
+  source: RecognitionCanvas,
+  corners: { topLeft: Point; topRight: Point; bottomRight: Point; bottomLeft: Point },
+  size = 900
+): RecognitionCanvas | null {
+  const dst = createCanvas(size, size);
+  const srcData = readCanvasPixels(source);
+  const dstCtx = getContext2d(dst);
+  if (!srcData || !dstCtx) {
+    return null;
+  }
+
+  const outData = dstCtx.createImageData(size, size);
+
+  const srcQuad = [
+    corners.topLeft,
+    corners.topRight,
+    corners.bottomRight,
+    corners.bottomLeft
+  ];
+  const dstQuad = [
+    { x: 0, y: 0 },
+    { x: size - 1, y: 0 },
+    { x: size - 1, y: size - 1 },
+    { x: 0, y: size - 1 }
+  ];
+
+  // We need dst->src mapping for sampling.
+  const h = homographyFrom4Points(dstQuad, srcQuad);
+  if (!h) {
+    return null;
+  }
+
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const denom = h[6] * x + h[7] * y + h[8];
+      if (Math.abs(denom) < 1e-9) {
+        continue;
+      }
+      const sx = (h[0] * x + h[1] * y + h[2]) / denom;
+      const sy = (h[3] * x + h[4] * y + h[5]) / denom;
+      const ix = Math.round(sx);
+      const iy = Math.round(sy);
+      const outP = (y * size + x) * 4;
+      if (ix < 0 || iy < 0 || ix >= source.width || iy >= source.height) {
+        outData.data[outP] = 255;
+        outData.data[outP + 1] = 255;
+        outData.data[outP + 2] = 255;
+        outData.data[outP + 3] = 255;
+        continue;
+      }
+      const inP = (iy * source.width + ix) * 4;
+      outData.data[outP] = srcData.data[inP];
+      outData.data[outP + 1] = srcData.data[inP + 1];
+      outData.data[outP + 2] = srcData.data[inP + 2];
+      outData.data[outP + 3] = 255;
+    }
+  }
+
+  dstCtx.putImageData(outData, 0, 0);
+  return dst;
+}
+
+function estimateGridRect(canvas: RecognitionCanvas): { left: number; top: number; size: number } {
+  const image = readCanvasPixels(canvas);
+  if (!image) {
+    return { left: 0, top: 0, size: Math.min(canvas.width, canvas.height) };
+  }
+
+  const { width, height } = canvas;
+  const rowHits = Array<number>(height).fill(0);
+  const colHits = Array<number>(width).fill(0);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4;
+      const r = image.data[offset];
+      const g = image.data[offset + 1];
+      const b = image.data[offset + 2];
+      const lum = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      if (lum < 135) {
+        rowHits[y] += 1;
+        colHits[x] += 1;
+      }
+    }
+  }
+
+  const rowThreshold = Math.max(8, Math.floor(width * 0.09));
+  const colThreshold = Math.max(8, Math.floor(height * 0.09));
+
+  let top = rowHits.findIndex((count) => count > rowThreshold);
+  const bottom = rowHits.length - 1 - [...rowHits].reverse().findIndex((count) => count > rowThreshold);
+  let left = colHits.findIndex((count) => count > colThreshold);
+  const right = colHits.length - 1 - [...colHits].reverse().findIndex((count) => count > colThreshold);
+
+  if (top < 0 || left < 0 || bottom <= top || right <= left) {
+    return { left: 0, top: 0, size: Math.min(width, height) };
+  }
+
+  const rectWidth = right - left;
+  const rectHeight = bottom - top;
+
+  if (Math.abs(rectWidth - rectHeight) > Math.min(width, height) * 0.25) {
+    return { left: 0, top: 0, size: Math.min(width, height) };
+  }
+
+  const size = Math.min(rectWidth, rectHeight);
+  left = Math.max(0, left + Math.floor((rectWidth - size) / 2));
+  top = Math.max(0, top + Math.floor((rectHeight - size) / 2));
+
+  return { left, top, size };
+}
+
+function rotateCanvas(source: RecognitionCanvas, angleDeg: number): RecognitionCanvas {
+  const rotated = createCanvas(source.width, source.height);
+  const ctx = getContext2d(rotated);
+  if (!ctx) {
+    return source;
+  }
+
+  ctx.fillStyle = "white";
+  ctx.fillRect(0, 0, rotated.width, rotated.height);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate((angleDeg * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return rotated;
+}
+
+// Extreme (max or min) luminance within radius of each pixel; a separable square filter.
+function localExtreme(values: Float32Array, width: number, height: number, radius: number, useMax: boolean): Float32Array {
+  const pick = useMax ? Math.max : Math.min;
+  const rows = new Float32Array(values.length);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      let extreme = values[y * width + x];
+      for (let dx = Math.max(0, x - radius); dx <= Math.min(width - 1, x + radius); dx += 1) {
+        extreme = pick(extreme, values[y * width + dx]);
+      }
+      rows[y * width + x] = extreme;
+    }
+  }
+  const out = new Float32Array(values.length);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      let extreme = rows[y * width + x];
+      for (let dy = Math.max(0, y - radius); dy <= Math.min(height - 1, y + radius); dy += 1) {
+        extreme = pick(extreme, rows[dy * width + x]);
+      }
+      out[y * width + x] = extreme;
+    }
+  }
+  return out;
+}
+
+// Screenshots from other apps may be in dark mode (light digits on a dark page) or tint
+// cells with highlight colours. Everything downstream expects dark ink on a plain light
+// page, so such images are redrawn as how far each pixel stands out from its local
+// background: the brightest nearby pixel on a light page, the darkest on a dark one.
+// Ordinary photos of printed puzzles come back untouched.
+function normalizeInkPolarity(source: RecognitionCanvas): RecognitionCanvas {
+  const image = readCanvasPixels(source);
+  if (!image) {
+    return source;
+  }
+  const { width, height } = source;
+  const pixelCount = width * height;
+  const lum = new Float32Array(pixelCount);
+  const histogram = new Uint32Array(256);
+  let tinted = 0;
+  for (let pixel = 0; pixel < pixelCount; pixel += 1) {
+    const p = pixel * 4;
+    const r = image.data[p];
+    const g = image.data[p + 1];
+    const b = image.data[p + 2];
+    const max = Math.max(r, g, b);
+    lum[pixel] = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    histogram[Math.round(lum[pixel])] += 1;
+    if (max > 60 && (max - Math.min(r, g, b)) / max > 0.15) {
+      tinted += 1;
+    }
+  }
+
+  let seen = 0;
+  let background = 0;
+  while (background < 255 && seen + histogram[background] < pixelCount / 2) {
+    seen += histogram[background];
+    background += 1;
+  }
+  const dark = background < 110;
+  if (!dark && tinted < pixelCount * 0.04) {
+    return source;
+  }
+
+  const radius = Math.max(4, Math.round(Math.min(width, height) / 90));
+  const local = localExtreme(lum, width, height, radius, !dark);
+  const contrast = new Float32Array(pixelCount);
+  let strongest = 64;
+  for (let pixel = 0; pixel < pixelCount; pixel += 1) {
+    contrast[pixel] = dark ? lum[pixel] - local[pixel] : local[pixel] - lum[pixel];
+    strongest = Math.max(strongest, contrast[pixel]);
+  }
+
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2d(canvas);
+  if (!ctx) {
+    return source;
+  }
+  const out = ctx.createImageData(width, height);
+  for (let pixel = 0; pixel < pixelCount; pixel += 1) {
+    const value = 255 - (Math.max(0, contrast[pixel]) * 255) / strongest;
+    const p = pixel * 4;
+    out.data[p] = value;
+    out.data[p + 1] = value;
+    out.data[p + 2] = value;
+    out.data[p + 3] = 255;
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+}
+
+function createDetectionBinary(source: RecognitionCanvas): RecognitionCanvas {
+  const canvas = createCanvas(source.width, source.height);
+  const ctx = getContext2d(canvas);
+  if (!ctx) {
+    return source;
+  }
+  ctx.drawImage(source, 0, 0);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let minLum = 255;
+  let maxLum = 0;
+
+  for (let i = 0; i < image.data.length; i += 4) {
+    const lum = 0.2126 * image.data[i] + 0.7152 * image.data[i + 1] + 0.0722 * image.data[i + 2];
+    minLum = Math.min(minLum, lum);
+    maxLum = Math.max(maxLum, lum);
+    image.data[i] = lum;
+    image.data[i + 1] = lum;
+    image.data[i + 2] = lum;
+  }
+
+  const spread = Math.max(1, maxLum - minLum);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const normalized = ((image.data[i] - minLum) * 255) / spread;
+    image.data[i] = normalized;
+    image.data[i + 1] = normalized;
+    image.data[i + 2] = normalized;
+  }
+
+  const gray = new Uint8Array(canvas.width * canvas.height);
+  for (let y = 0; y < canvas.height; y += 1) {
+    for (let x = 0; x < canvas.width; x += 1) {
+      const p = (y * canvas.width + x) * 4;
+      gray[y * canvas.width + x] = image.data[p];
+    }
+  }
+
+  const integral = new Uint32Array((canvas.width + 1) * (canvas.height + 1));
+  for (let y = 1; y <= canvas.height; y += 1) {
+    let rowSum = 0;
+    for (let x = 1; x <= canvas.width; x += 1) {
+      rowSum += gray[(y - 1) * canvas.width + (x - 1)];
+      integral[y * (canvas.width + 1) + x] = integral[(y - 1) * (canvas.width + 1) + x] + rowSum;
+    }
+  }
+
+  const window = Math.max(12, Math.floor(Math.min(canvas.width, canvas.height) / 28));
+  for (let y = 0; y < canvas.height; y += 1) {
+    for (let x = 0; x < canvas.width; x += 1) {
+      const x0 = Math.max(0, x - window);
+      const y0 = Math.max(0, y - window);
+      const x1 = Math.min(canvas.width - 1, x + window);
+      const y1 = Math.min(canvas.height - 1, y + window);
+      const area = (x1 - x0 + 1) * (y1 - y0 + 1);
+      const sum =
+        integral[(y1 + 1) * (canvas.width + 1) + (x1 + 1)] -
+        integral[y0 * (canvas.width + 1) + (x1 + 1)] -
+        integral[(y1 + 1) * (canvas.width + 1) + x0] +
+        integral[y0 * (canvas.width + 1) + x0];
+      const avg = sum / area;
+      const idx = (y * canvas.width + x) * 4;
+      const bw = gray[y * canvas.width + x] < avg * 0.92 ? 0 : 255;
+      image.data[idx] = bw;
+      image.data[idx + 1] = bw;
+      image.data[idx + 2] = bw;
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+function getAxisScore(binaryCanvas: RecognitionCanvas): number {
+  const image = readCanvasPixels(binaryCanvas);
+  if (!image) {
+    return 0;
+  }
+  const { width, height } = binaryCanvas;
+  const rowCounts = Array<number>(height).fill(0);
+  const colCounts = Array<number>(width).fill(0);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const p = (y * width + x) * 4;
+      if (image.data[p] < 128) {
+        rowCounts[y] += 1;
+        colCounts[x] += 1;
+      }
+    }
+  }
+
+  const mean = (values: number[]) => values.reduce((acc, value) => acc + value, 0) / values.length;
+  const variance = (values: number[]) => {
+    const m = mean(values);
+    return values.reduce((acc, value) => acc + (value - m) * (value - m), 0) / values.length;
+  };
+
+  return Math.sqrt(variance(rowCounts)) + Math.sqrt(variance(colCounts));
+}
+
+function findBestRotationAngle(binaryCanvas: RecognitionCanvas): number {
+  const max = 420;
+  const scale = Math.min(1, max / Math.max(binaryCanvas.width, binaryCanvas.height));
+  const sample = createCanvas(
+    Math.max(1, Math.floor(binaryCanvas.width * scale)),
+    Math.max(1, Math.floor(binaryCanvas.height * scale))
+  );
+  const sampleCtx = getContext2d(sample, false);
+  if (!sampleCtx) {
+    return 0;
+  }
+  sampleCtx.drawImage(binaryCanvas, 0, 0, sample.width, sample.height);
+
+  let bestAngle = 0;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  for (let angle = -14; angle <= 14; angle += 1) {
+    const rotated = rotateCanvas(sample, angle);
+    const score = getAxisScore(rotated);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+function otsuThreshold(grayPixels: Uint8ClampedArray): number {
+  const hist = Array<number>(256).fill(0);
+  for (const value of grayPixels) {
+    hist[value] += 1;
+  }
+
+  const total = grayPixels.length;
+  let sum = 0;
+  for (let t = 0; t < 256; t += 1) {
+    sum += t * hist[t];
+  }
+
+  let sumB = 0;
+  let wB = 0;
+  let maxVariance = 0;
+  let threshold = 128;
+
+  for (let t = 0; t < 256; t += 1) {
+    wB += hist[t];
+    if (wB === 0) {
+      continue;
+    }
+    const wF = total - wB;
+    if (wF === 0) {
+      break;
+    }
+    sumB += t * hist[t];
+    const mB = sumB / wB;
+    const mF = (sum - sumB) / wF;
+    const between = wB * wF * (mB - mF) * (mB - mF);
+    if (between > maxVariance) {
+      maxVariance = between;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+}
+
+async function createThumbnailUrl(source: RecognitionCanvas, size = 160): Promise<string> {
+  const thumbnail = createCanvas(size, size);
+  const ctx = getContext2d(thumbnail, false);
+  if (!ctx) {
+    return canvasToDataUrl(source, "image/jpeg", 0.7);
+  }
+  ctx.drawImage(source, 0, 0, size, size);
+  return canvasToDataUrl(thumbnail, "image/jpeg", 0.7);
+}
+
+// Runs work over the items with up to `concurrency` of them in flight, in order of the list.
+async function forEachConcurrently<T>(
+  items: T[],
+  concurrency: number,
+  signal: AbortSignal | undefined,
+  work: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+      while (next < items.length) {
+        signal?.throwIfAborted();
+        const item = items[next];
+        next += 1;
+        await work(item);
+      }
+    })
+  );
+}
+
+function progress(callback: ((state: SudokuRecognitionProgress) => void) | undefined, state: SudokuRecognitionProgress): void {
+  callback?.(state);
+}
+
+// The whole image pipeline. It runs inside the recognition worker, or on the page
+// when the browser has no OffscreenCanvas.
+export async function runRecognitionPipeline(
+  file: File,
+  onProgress?: (state: SudokuRecognitionProgress) => void,
+  options?: RecognizeOptions
+): Promise<SudokuRecognitionResult> {
+  const signal = options?.signal;
+  const notices: string[] = [];
+  const image = await createImageBitmap(file);
+  const maxSize = 1100;
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const sourceCanvas = createCanvas(
+    Math.max(1, Math.floor(image.width * scale)),
+    Math.max(1, Math.floor(image.height * scale))
+  );
+  const context = getContext2d(sourceCanvas);
+  if (!context) {
+    image.close();
+    throw new Error("Canvas context unavailable");
+  }
+  context.drawImage(image, 0, 0, sourceCanvas.width, sourceCanvas.height);
+  image.close();
+  signal?.throwIfAborted();
+
+  progress(onProgress, { progress: 0.02, stage: "Detecting puzzle frame..." });
+  // Frame detection and digit reading work on the normalized image; ink colours are
+  // still measured on the source to tell givens from entries.
+  const inkSource = normalizeInkPolarity(sourceCanvas);
+  const detectionBinary = createDetectionBinary(inkSource);
+  let corners: CornerQuad | null = options?.manualCorners
+    ? {
+        topLeft: {
+          x: options.manualCorners[0].x * sourceCanvas.width,
+          y: options.manualCorners[0].y * sourceCanvas.height
+        },
+        topRight: {
+          x: options.manualCorners[1].x * sourceCanvas.width,
+          y: options.manualCorners[1].y * sourceCanvas.height
+        },
+        bottomRight: {
+          x: options.manualCorners[2].x * sourceCanvas.width,
+          y: options.manualCorners[2].y * sourceCanvas.height
+        },
+        bottomLeft: {
+          x: options.manualCorners[3].x * sourceCanvas.width,
+          y: options.manualCorners[3].y * sourceCanvas.height
+        }
+      }
+    : findGridCorners(detectionBinary);
+
+  if (!corners) {
+    progress(onProgress, { progress: 0.04, stage: "Detecting corners with OpenCV..." });
+    const opencv = await loadOpenCV();
+    if (opencv.cv) {
+      corners = detectCornersWithOpenCV(opencv.cv, inkSource);
+    } else {
+      const notice = `No puzzle frame found and OpenCV corner detection is unavailable (${opencv.reason}).`;
+      notices.push(`${notice} If the grid looks off, select its 4 corners.`);
+      progress(onProgress, { progress: 0.04, stage: `${notice} Using the whole image...` });
+    }
+  }
+  signal?.throwIfAborted();
+
+  let correctedSource = sourceCanvas;
+  let correctedInk = inkSource;
+  let correctedBinary = detectionBinary;
+  if (corners) {
+    const warpedSource = warpCanvasToSquare(sourceCanvas, corners);
+    const warpedInk = inkSource === sourceCanvas ? warpedSource : warpCanvasToSquare(inkSource, corners);
+    const warpedBinary = warpCanvasToSquare(detectionBinary, corners);
+    if (warpedSource && warpedInk && warpedBinary) {
+      correctedSource = warpedSource;
+      correctedInk = warpedInk;
+      correctedBinary = warpedBinary;
+    }
+  }
+
+  const angle = findBestRotationAngle(correctedBinary);
+  const rotatedBinary = rotateCanvas(correctedBinary, angle);
+  const rotatedSource = rotateCanvas(correctedSource, angle);
+  const rotatedInk = correctedInk === correctedSource ? rotatedSource : rotateCanvas(correctedInk, angle);
+  const rect = estimateGridRect(rotatedBinary);
+  signal?.throwIfAborted();
+
+  const preview = createCanvas(rect.size, rect.size);
+  const previewContext = getContext2d(preview);
+  if (!previewContext) {
+    throw new Error("Preview canvas failed");
+  }
+  previewContext.drawImage(
+    rotatedSource,
+    rect.left,
+    rect.top,
+    rect.size,
+    rect.size,
+    0,
+    0,
+    rect.size,
+    rect.size
+  );
+
+  progress(onProgress, { progress: 0.08, stage: "Loading recognition engine..." });
+  const recognizer = await getDigitRecognizer(
+    options?.recognizer ?? (isEngineBundled("tesseract") ? "tesseract" : "template"),
+    Math.max(1, Math.floor(options?.ocrWorkers ?? OCR_POOL_SIZE))
+  );
+  signal?.throwIfAborted();
+
+  const cellCandidates: DigitCandidate[][] = Array.from({ length: 81 }, () => []);
+  const cellInkStats: CellInkStats[] = [];
+  const cellCropUrls: string[] = [];
+  const cellUsedFallback = Array<boolean>(81).fill(false);
+  const cellSize = rect.size / 9;
+  const scratch = createCanvas(72, 72);
+  const scratchCtx = getContext2d(scratch);
+  if (!scratchCtx) {
+    throw new Error("Scratch canvas failed");
+  }
+
+  // Crop and binarize every cell first; only the cells with ink go to OCR. The wide crop
+  // keeps most of the cell, so pencil marks in its corners are still there.
+  const crops: {
+    original: ImageData;
+    primary: ImageData;
+    wideOriginal: ImageData;
+    wideBinary: ImageData;
+    wideColour: ImageData;
+  }[] = [];
+  const inked: boolean[] = [];
+  for (let index = 0; index < 81; index += 1) {
+    const row = Math.floor(index / 9);
+    const col = index % 9;
+    const margin = cellSize * 0.24;
+    const left = rect.left + col * cellSize + margin;
+    const top = rect.top + row * cellSize + margin;
+    const width = cellSize - margin * 2;
+    const height = cellSize - margin * 2;
+
+    scratchCtx.clearRect(0, 0, scratch.width, scratch.height);
+    scratchCtx.fillStyle = "white";
+    scratchCtx.fillRect(0, 0, scratch.width, scratch.height);
+    scratchCtx.drawImage(rotatedInk, left, top, width, height, 8, 8, 56, 56);
+
+    const original = scratchCtx.getImageData(0, 0, scratch.width, scratch.height);
+    cellCropUrls.push(await canvasToDataUrl(scratch, "image/png"));
+    const primary = prepareCellBinary(original, scratch.width, scratch.height, 0.9, 1.1, true);
+
+    // Just inside the grid lines: apps draw pencil marks close to the cell edge.
+    const wideMargin = cellSize * 0.04;
+    const drawWide = (from: RecognitionCanvas) => {
+      scratchCtx.drawImage(
+        from,
+        rect.left + col * cellSize + wideMargin,
+        rect.top + row * cellSize + wideMargin,
+        cellSize - wideMargin * 2,
+        cellSize - wideMargin * 2,
+        0,
+        0,
+        scratch.width,
+        scratch.height
+      );
+      return scratchCtx.getImageData(0, 0, scratch.width, scratch.height);
+    };
+    const wideOriginal = drawWide(rotatedInk);
+    const wideBinary = prepareCellBinary(wideOriginal, scratch.width, scratch.height, 0.9, 1.1, true);
+    const wideColour = rotatedInk === rotatedSource ? wideOriginal : drawWide(rotatedSource);
+    crops.push({ original, primary, wideOriginal, wideBinary, wideColour });
+
+    const stats = detectCellInkStats(primary, scratch.width, scratch.height);
+    cellInkStats.push(stats);
+    inked.push(
+      stats.inkRatio >= 0.01 &&
+        stats.bboxWidth >= 6 &&
+        stats.bboxHeight >= 6 &&
+        !(stats.touchesEdge && stats.inkRatio < 0.04)
+    );
+  }
+  signal?.throwIfAborted();
+
+  // Digits in one puzzle share a size, so anything well below the typical height is a mark.
+  const glyphHeights = crops.map(({ primary }, index) => (inked[index] ? tallestInkHeight(primary) : 0));
+  const inkedHeights = glyphHeights.filter((_, index) => inked[index]).sort((a, b) => a - b);
+  const typicalHeight = inkedHeights[Math.floor(inkedHeights.length * 0.75)] ?? 0;
+  const digitCells: number[] = [];
+  const markCells: { index: number; binary: ImageData; marks: InkComponent[] }[] = [];
+  for (let index = 0; index < 81; index += 1) {
+    if (inked[index] && glyphHeights[index] >= typicalHeight * MARK_HEIGHT_RATIO) {
+      digitCells.push(index);
+      continue;
+    }
+    // Marks drawn right up to the cell edge would go with border-connected ink, so only
+    // whole lines are taken off here.
+    const { wideOriginal } = crops[index];
+    const binary = prepareCellBinary(wideOriginal, scratch.width, scratch.height, 0.9, 1.1, false);
+    removeEdgeLines(binary, scratch.width, scratch.height);
+    const marks = findPencilMarks(wideOriginal, binary);
+    if (marks.length > 0) {
+      markCells.push({ index, binary, marks });
+    }
+  }
+
+  let finished = 81 - digitCells.length - markCells.length;
+  const reportCells = () => {
+    progress(onProgress, {
+      progress: 0.08 + (finished / 81) * 0.92,
+      stage: `Recognizing cells: ${finished}/81`
+    });
+  };
+  reportCells();
+
+  // Handwriting is told apart from print by ink colour and by how well the glyph fits a printed font.
+  const templates = getTemplateRecognizer();
+  const cellTones: (InkTone | null)[] = Array(81).fill(null);
+  const cellPrintedLikeness = Array<number>(81).fill(0);
+  const cellNotes = Array<number>(81).fill(0);
+
+  await forEachConcurrently(digitCells, recognizer.concurrency, signal, async (index) => {
+    const { original, primary } = crops[index];
+    const readings = new Map<number, number>();
+    const primaryReading = await recognizer.readCell(primary);
+    mergeDigitCandidates(readings, primaryReading);
+
+    const primaryBest = rankDigitCandidates(readings)[0];
+    if (!primaryBest || primaryBest.confidence < 34) {
+      const fallback = prepareCellBinary(original, scratch.width, scratch.height, 0.96, 1.0, false);
+      mergeDigitCandidates(readings, await recognizer.readCell(fallback));
+      cellUsedFallback[index] = true;
+    }
+
+    cellCandidates[index] = rankDigitCandidates(readings);
+    cellTones[index] = measureInkTone(crops[index].wideColour, crops[index].wideBinary);
+    const templateReading = recognizer === templates ? primaryReading : await templates.readCell(primary);
+    cellPrintedLikeness[index] = templateReading[0]?.confidence ?? 0;
+    finished += 1;
+    reportCells();
+  });
+
+  await forEachConcurrently(markCells, recognizer.concurrency, signal, async ({ index, binary, marks }) => {
+    for (const mark of marks) {
+      const reading = await recognizer.readCell(enlargeComponent(binary, mark));
+      const slotDigit = markSlot(mark, binary.width, binary.height) + 1;
+      const best = reading[0];
+      const inSlot = reading.find(
+        (candidate) => candidate.digit === slotDigit && candidate.confidence >= MIN_DIGIT_CONFIDENCE
+      );
+      if (inSlot && best.confidence - inSlot.confidence < MARK_SLOT_MARGIN) {
+        cellNotes[index] |= bitForDigit(slotDigit);
+      } else if (best && best.confidence >= MIN_MARK_CONFIDENCE) {
+        cellNotes[index] |= bitForDigit(best.digit);
+      }
+    }
+    finished += 1;
+    reportCells();
+  });
+
+  const writing = classifyWriting(
+    digitCells.map((index) => ({ tone: cellTones[index], printedLikeness: cellPrintedLikeness[index] }))
+  );
+  const kinds = Array<RecognizedCellKind>(81).fill("empty");
+  digitCells.forEach((index, position) => {
+    kinds[index] = writing[position] === "printed" ? "given" : "entry";
+  });
+
+  // Only the givens are held to the puzzle's rules; entries are the solver's and may be wrong.
+  const givenCandidates = cellCandidates.map((candidates, index) => (kinds[index] === "given" ? candidates : []));
+  const entries: BoardValues = cellCandidates.map((candidates, index) =>
+    kinds[index] === "entry" && candidates[0] && candidates[0].confidence >= MIN_DIGIT_CONFIDENCE
+      ? candidates[0].digit
+      : null
+  );
+
+  progress(onProgress, { progress: 1, stage: "Checking puzzle..." });
+  const resolved = resolveRecognizedDigits(givenCandidates, { minConfidence: MIN_DIGIT_CONFIDENCE });
+  let values = resolved.values;
+  let corrections = resolved.corrections;
+
+  if (!resolved.unique) {
+    const confidences = givenCandidates.map((candidates) => candidates[0]?.confidence ?? 0);
+    const pruned = pruneConflictingDetections(resolved.values, confidences);
+    values = pruned.values;
+    corrections = pruned.dropped.map((index) => ({
+      index,
+      from: resolved.values[index],
+      to: null,
+      reason: `Conflicted with a peer; removed ${resolved.values[index]} (${Math.round(confidences[index])}%).`
+    }));
+  }
+
+  const cells: RecognizedCell[] = values.map((given, index) => {
+    const candidates = cellCandidates[index];
+    const digit = given ?? entries[index];
+    return {
+      index,
+      kind: given !== null ? "given" : entries[index] !== null ? "entry" : "empty",
+      digit,
+      confidence: candidates.find((candidate) => candidate.digit === digit)?.confidence ?? 0,
+      alternatives: candidates.filter((candidate) => candidate.digit !== digit),
+      inkStats: cellInkStats[index],
+      usedFallback: cellUsedFallback[index],
+      notes: cellNotes[index],
+      cropUrl: cellCropUrls[index]
+    };
+  });
+
+  return {
+    values,
+    entries,
+    notes: cellNotes,
+    cells,
+    previewUrl: await canvasToDataUrl(preview, "image/png"),
+    thumbnailUrl: await createThumbnailUrl(preview),
+    recognizer: recognizer.id,
+    concurrency: recognizer.concurrency,
+    droppedConflicts: corrections.filter((correction) => correction.to === null).length,
+    corrections,
+    notices
+  };
+}
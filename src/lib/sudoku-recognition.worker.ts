@@ -0,0 +1,35 @@
+import { runRecognitionPipeline } from "@/lib/sudoku-recognition-pipeline";
+import { type RecognitionRequest, type RecognitionWorkerMessage } from "@/lib/sudoku-recognition";
+
+const running = new Map<number, AbortController>();
+
+const post = (message: RecognitionWorkerMessage) => {
+  self.postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<RecognitionRequest>) => {
+  const request = event.data;
+  if (request.type === "cancel") {
+    running.get(request.id)?.abort();
+    return;
+  }
+
+  const { id, file, manualCorners, recognizer, ocrWorkers } = request;
+  const controller = new AbortController();
+  running.set(id, controller);
+  try {
+    const result = await runRecognitionPipeline(file, (state) => post({ type: "progress", id, state }), {
+      manualCorners,
+      recognizer,
+      ocrWorkers,
+      signal: controller.signal
+    });
+    post({ type: "result", id, result });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      post({ type: "error", id, message: error instanceof Error ? error.message : "Recognition failed" });
+    }
+  } finally {
+    running.delete(id);
+  }
+};
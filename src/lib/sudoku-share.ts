@@ -0,0 +1,136 @@
+import { CELL_COUNT, createEmptyNotes, type BoardValues } from "@/lib/sudoku";
+import { type PuzzleDocument } from "@/lib/sudoku-formats";
+
+export const SHARE_HASH_KEY = "p";
+export const SHARE_CODE_VERSION = 1;
+
+const FLAG_ENTRIES = 1;
+const FLAG_NOTES = 2;
+
+type BitField = [value: number, bits: number];
+
+type ReadBits = (bits: number) => number;
+
+function packBits(fields: BitField[]): number[] {
+  const bytes: number[] = [];
+  let length = 0;
+  for (const [value, bits] of fields) {
+    for (let bit = bits - 1; bit >= 0; bit -= 1) {
+      if (length % 8 === 0) {
+        bytes.push(0);
+      }
+      if ((value >> bit) & 1) {
+        bytes[bytes.length - 1] |= 0x80 >> length % 8;
+      }
+      length += 1;
+    }
+  }
+  return bytes;
+}
+
+function createBitReader(bytes: number[]): ReadBits {
+  let position = 0;
+  return (bits) => {
+    let value = 0;
+    for (let i = 0; i < bits; i += 1) {
+      const byte = bytes[position >> 3];
+      if (byte === undefined) {
+        throw new Error("Puzzle link is truncated.");
+      }
+      value = (value << 1) | ((byte >> (7 - (position % 8))) & 1);
+      position += 1;
+    }
+    return value;
+  };
+}
+
+function toBase64Url(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): number[] {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  try {
+    return Array.from(atob(base64), (char) => char.charCodeAt(0));
+  } catch {
+    throw new Error("Puzzle link is not valid base64.");
+  }
+}
+
+function readDigit(read: ReadBits): number | null {
+  const value = read(4);
+  if (value > 9) {
+    throw new Error("Puzzle link contains an invalid digit.");
+  }
+  return value === 0 ? null : value;
+}
+
+// v1 layout: a flags byte, 4 bits per given, then optionally 4 bits per entry and 9 bits of notes per cell.
+function encodeV1(document: PuzzleDocument, includeProgress: boolean): string {
+  const entries = includeProgress && document.values.some((value, index) => value !== document.givens[index]);
+  const notes = includeProgress && document.notes.some((mask) => mask !== 0);
+  const fields: BitField[] = [[(entries ? FLAG_ENTRIES : 0) | (notes ? FLAG_NOTES : 0), 8]];
+  document.givens.forEach((value) => fields.push([value ?? 0, 4]));
+  if (entries) {
+    document.values.forEach((value, index) => fields.push([document.givens[index] === null ? (value ?? 0) : 0, 4]));
+  }
+  if (notes) {
+    document.notes.forEach((mask) => fields.push([mask & 0x1ff, 9]));
+  }
+  return toBase64Url(packBits(fields));
+}
+
+function decodeV1(payload: string): PuzzleDocument {
+  const read = createBitReader(fromBase64Url(payload));
+  const flags = read(8);
+  const givens: BoardValues = Array.from({ length: CELL_COUNT }, () => readDigit(read));
+  const values = [...givens];
+  if (flags & FLAG_ENTRIES) {
+    for (let index = 0; index < CELL_COUNT; index += 1) {
+      const entry = readDigit(read);
+      if (givens[index] === null) {
+        values[index] = entry;
+      }
+    }
+  }
+  const notes = createEmptyNotes();
+  if (flags & FLAG_NOTES) {
+    for (let index = 0; index < CELL_COUNT; index += 1) {
+      const mask = read(9);
+      notes[index] = values[index] === null ? mask : 0;
+    }
+  }
+  return { givens, values, notes };
+}
+
+// Every version ever issued stays decodable so old links keep working.
+const SHARE_DECODERS: Record<number, (payload: string) => PuzzleDocument> = {
+  1: decodeV1
+};
+
+export function encodeShareCode(document: PuzzleDocument, includeProgress = false): string {
+  return `${SHARE_CODE_VERSION}.${encodeV1(document, includeProgress)}`;
+}
+
+export function decodeShareCode(code: string): PuzzleDocument {
+  const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(code.trim());
+  if (!match) {
+    throw new Error("Puzzle link is malformed.");
+  }
+  const decode = SHARE_DECODERS[Number.parseInt(match[1], 10)];
+  if (!decode) {
+    throw new Error("Puzzle link was made by a newer version of PuzzleSnap.");
+  }
+  return decode(match[2]);
+}
+
+export function createShareUrl(document: PuzzleDocument, includeProgress = false): string {
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.hash = `${SHARE_HASH_KEY}=${encodeShareCode(document, includeProgress)}`;
+  return url.toString();
+}
+
+export function readShareCode(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_HASH_KEY);
+}
@@ -0,0 +1,226 @@
+import {
+  ALL_CANDIDATES,
+  CELL_COUNT,
+  SUDOKU_UNITS,
+  bitForDigit,
+  countCandidates,
+  digitsFromMask,
+  getPeers,
+  type BoardValues
+} from "@/lib/sudoku";
+
+export type SudokuSolveResult = {
+  solution: BoardValues | null;
+  solutionCount: number;
+  contradictory: boolean;
+};
+
+type SearchState = {
+  grid: number[];
+  candidates: number[];
+};
+
+const PEERS: number[][] = Array.from({ length: CELL_COUNT }, (_, index) => getPeers(index));
+
+export function computeCandidateMasks(values: BoardValues): number[] {
+  const masks = Array<number>(CELL_COUNT).fill(0);
+  for (let index = 0; index < CELL_COUNT; index += 1) {
+    if (values[index] !== null) {
+      continue;
+    }
+    let mask = ALL_CANDIDATES;
+    for (const peer of PEERS[index]) {
+      const peerValue = values[peer];
+      if (peerValue !== null) {
+        mask &= ~bitForDigit(peerValue);
+      }
+    }
+    masks[index] = mask;
+  }
+  return masks;
+}
+
+function place(state: SearchState, index: number, digit: number): boolean {
+  const bit = bitForDigit(digit);
+  if ((state.candidates[index] & bit) === 0) {
+    return false;
+  }
+  state.grid[index] = digit;
+  state.candidates[index] = 0;
+  for (const peer of PEERS[index]) {
+    if (state.grid[peer] === digit) {
+      return false;
+    }
+    state.candidates[peer] &= ~bit;
+  }
+  return true;
+}
+
+function propagate(state: SearchState): boolean {
+  let changed = true;
+  while (changed) {
+    changed = false;
+
+    for (let index = 0; index < CELL_COUNT; index += 1) {
+      if (state.grid[index] !== 0) {
+        continue;
+      }
+      const mask = state.candidates[index];
+      if (mask === 0) {
+        return false;
+      }
+      if (countCandidates(mask) === 1) {
+        if (!place(state, index, digitsFromMask(mask)[0])) {
+          return false;
+        }
+        changed = true;
+      }
+    }
+
+    for (const unit of SUDOKU_UNITS) {
+      for (let digit = 1; digit <= 9; digit += 1) {
+        const bit = bitForDigit(digit);
+        let placed = false;
+        let spot = -1;
+        let spots = 0;
+        for (const cell of unit.cells) {
+          if (state.grid[cell] === digit) {
+            placed = true;
+            break;
+          }
+          if (state.grid[cell] === 0 && (state.candidates[cell] & bit) !== 0) {
+            spot = cell;
+            spots += 1;
+          }
+        }
+        if (placed) {
+          continue;
+        }
+        if (spots === 0) {
+          return false;
+        }
+        if (spots === 1) {
+          if (!place(state, spot, digit)) {
+            return false;
+          }
+          changed = true;
+        }
+      }
+    }
+  }
+  return true;
+}
+
+function pickBranchCell(state: SearchState): number {
+  let best = -1;
+  let bestCount = 10;
+  for (let index = 0; index < CELL_COUNT; index += 1) {
+    if (state.grid[index] !== 0) {
+      continue;
+    }
+    const count = countCandidates(state.candidates[index]);
+    if (count < bestCount) {
+      best = index;
+      bestCount = count;
+      if (count === 2) {
+        break;
+      }
+    }
+  }
+  return best;
+}
+
+function search(state: SearchState, limit: number, found: number[][]): void {
+  if (found.length >= limit || !propagate(state)) {
+    return;
+  }
+
+  const index = pickBranchCell(state);
+  if (index < 0) {
+    found.push([...state.grid]);
+    return;
+  }
+
+  for (const digit of digitsFromMask(state.candidates[index])) {
+    const branch: SearchState = { grid: [...state.grid], candidates: [...state.candidates] };
+    if (place(branch, index, digit)) {
+      search(branch, limit, found);
+    }
+    if (found.length >= limit) {
+      return;
+    }
+  }
+}
+
+function createSearchState(values: BoardValues): SearchState | null {
+  const state: SearchState = {
+    grid: Array<number>(CELL_COUNT).fill(0),
+    candidates: Array<number>(CELL_COUNT).fill(ALL_CANDIDATES)
+  };
+  for (let index = 0; index < CELL_COUNT; index += 1) {
+    const value = values[index];
+    if (value !== null && !place(state, index, value)) {
+      return null;
+    }
+  }
+  return state;
+}
+
+export function solveSudoku(values: BoardValues, limit = 2): SudokuSolveResult {
+  const state = values.length === CELL_COUNT ? createSearchState(values) : null;
+  if (!state) {
+    return { solution: null, solutionCount: 0, contradictory: true };
+  }
+
+  const found: number[][] = [];
+  search(state, Math.max(1, limit), found);
+
+  return {
+    solution: found.length > 0 ? [...found[0]] : null,
+    solutionCount: found.length,
+    contradictory: found.length === 0
+  };
+}
+
+export function countSolutions(values: BoardValues, limit = 2): number {
+  return solveSudoku(values, limit).solutionCount;
+}
+
+export function hasUniqueSolution(values: BoardValues): boolean {
+  return countSolutions(values, 2) === 1;
+}
+
+export type PuzzleStatus = "unique" | "none" | "multiple";
+
+export type PuzzleCheck = {
+  status: PuzzleStatus;
+  solution: BoardValues | null;
+  culprits: number[];
+};
+
+export function findCulpritGivens(values: BoardValues): number[] {
+  const culprits: number[] = [];
+  for (let index = 0; index < CELL_COUNT; index += 1) {
+    if (values[index] === null) {
+      continue;
+    }
+    const without = [...values];
+    without[index] = null;
+    if (countSolutions(without, 1) > 0) {
+      culprits.push(index);
+    }
+  }
+  return culprits;
+}
+
+export function checkPuzzle(values: BoardValues): PuzzleCheck {
+  const result = solveSudoku(values, 2);
+  if (result.solutionCount === 0) {
+    return { status: "none", solution: null, culprits: findCulpritGivens(values) };
+  }
+  return {
+    status: result.solutionCount === 1 ? "unique" : "multiple",
+    solution: result.solutionCount === 1 ? result.solution : null,
+    culprits: []
+  };
+}
@@ -0,0 +1,514 @@
+import { CELL_COUNT, type BoardValues } from "@/lib/sudoku";
+import { DIFFICULTY_LABELS, type DifficultyLabel } from "@/lib/sudoku-difficulty";
+
+export type MoveKind = "value" | "note" | "action";
+
+// The change that produced a snapshot. For "note" moves, from/to are the cell's note masks;
+// "action" moves touch many cells and are described by their label alone.
+export type MoveRecord = {
+  kind: MoveKind;
+  index: number | null;
+  from: number | null;
+  to: number | null;
+  label?: string;
+};
+
+export type GameSnapshot = {
+  values: BoardValues;
+  notes: number[];
+  marks?: number[];
+  move?: MoveRecord;
+};
+
+export type AssistTally = {
+  checks: number;
+  reveals: number;
+  hints: number;
+};
+
+export type GameProgress = {
+  startValues: BoardValues;
+  values: BoardValues;
+  notes: number[];
+  history: GameSnapshot[];
+  historyIndex: number;
+  selected: number | null;
+  assists: AssistTally;
+  elapsedMs: number;
+  mistakes: number;
+  undos: number;
+  completedAt: number | null;
+};
+
+export type SessionStage = "detect" | "play";
+
+export type SavedSession = {
+  version: typeof SESSION_SCHEMA_VERSION;
+  stage: SessionStage;
+  gameId: string | null;
+  recognizedValues: BoardValues;
+  progress: GameProgress | null;
+  savedAt: number;
+};
+
+export const SESSION_STORAGE_KEY = "sudokupaste.session.v1";
+export const SESSION_SCHEMA_VERSION = 2;
+// The recognition preview is a PNG data URL of a few hundred kilobytes; it is kept apart so
+// saving a move does not rewrite it.
+export const PREVIEW_STORAGE_KEY = "sudokupaste.preview.v1";
+
+type RawRecord = Record<string, unknown>;
+
+// Each entry upgrades a save from version `key` to `key + 1`.
+const SESSION_MIGRATIONS: Record<number, (raw: RawRecord) => RawRecord> = {
+  1: (raw) => ({ ...raw, gameId: null })
+};
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readBoard(value: unknown): BoardValues | null {
+  if (!Array.isArray(value) || value.length !== CELL_COUNT) {
+    return null;
+  }
+  return value.map((cell) => (typeof cell === "number" && Number.isInteger(cell) && cell >= 1 && cell <= 9 ? cell : null));
+}
+
+function readNotes(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length !== CELL_COUNT) {
+    return null;
+  }
+  return value.map((mask) => (typeof mask === "number" && Number.isInteger(mask) ? mask & 0x1ff : 0));
+}
+
+function readSnapshot(value: unknown): GameSnapshot | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const values = readBoard(value.values);
+  const notes = readNotes(value.notes);
+  if (!values || !notes) {
+    return null;
+  }
+  const snapshot: GameSnapshot = { values, notes };
+  const marks = Array.isArray(value.marks)
+    ? value.marks.map(readCellIndex).filter((index): index is number => index !== null)
+    : [];
+  if (marks.length > 0) {
+    snapshot.marks = marks;
+  }
+  const move = readMoveRecord(value.move);
+  if (move) {
+    snapshot.move = move;
+  }
+  return snapshot;
+}
+
+function readMoveRecord(value: unknown): MoveRecord | null {
+  if (!isRecord(value) || (value.kind !== "value" && value.kind !== "note" && value.kind !== "action")) {
+    return null;
+  }
+  const readNumber = (raw: unknown) => (typeof raw === "number" && Number.isInteger(raw) ? raw : null);
+  const move: MoveRecord = {
+    kind: value.kind,
+    index: readCellIndex(value.index),
+    from: readNumber(value.from),
+    to: readNumber(value.to)
+  };
+  if (typeof value.label === "string") {
+    move.label = value.label;
+  }
+  return move;
+}
+
+export function createAssistTally(): AssistTally {
+  return { checks: 0, reveals: 0, hints: 0 };
+}
+
+function readCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+function readAssistTally(value: unknown): AssistTally {
+  if (!isRecord(value)) {
+    return createAssistTally();
+  }
+  return { checks: readCount(value.checks), reveals: readCount(value.reveals), hints: readCount(value.hints) };
+}
+
+function readCellIndex(value: unknown): number | null {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value < CELL_COUNT ? value : null;
+}
+
+// Fresh progress for a board that arrives with entries already made, e.g. an imported game.
+export function createGameProgress(startValues: BoardValues, values: BoardValues, notes: number[]): GameProgress {
+  const start: GameSnapshot = { values: [...startValues], notes: Array<number>(CELL_COUNT).fill(0) };
+  const history: GameSnapshot[] = [start];
+  if (values.some((value, index) => value !== startValues[index]) || notes.some((mask) => mask !== 0)) {
+    history.push({
+      values: [...values],
+      notes: [...notes],
+      move: { kind: "action", index: null, from: null, to: null, label: "Imported progress" }
+    });
+  }
+  const current = history[history.length - 1];
+  return {
+    startValues: [...startValues],
+    values: [...current.values],
+    notes: [...current.notes],
+    history,
+    historyIndex: history.length - 1,
+    selected: 0,
+    assists: createAssistTally(),
+    elapsedMs: 0,
+    mistakes: 0,
+    undos: 0,
+    completedAt: null
+  };
+}
+
+export function readGameProgress(value: unknown): GameProgress | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+  const startValues = readBoard(value.startValues);
+  const current = readSnapshot(value);
+  if (!startValues || !current || !Array.isArray(value.history)) {
+    return null;
+  }
+
+  const history: GameSnapshot[] = [];
+  for (const entry of value.history) {
+    const snapshot = readSnapshot(entry);
+    if (!snapshot) {
+      return null;
+    }
+    history.push(snapshot);
+  }
+  if (history.length === 0) {
+    history.push({ values: [...startValues], notes: Array<number>(CELL_COUNT).fill(0) });
+  }
+
+  const rawIndex = typeof value.historyIndex === "number" ? Math.floor(value.historyIndex) : history.length - 1;
+  return {
+    startValues,
+    values: current.values,
+    notes: current.notes,
+    history,
+    historyIndex: Math.max(0, Math.min(history.length - 1, rawIndex)),
+    selected: readCellIndex(value.selected),
+    assists: readAssistTally(value.assists),
+    elapsedMs: readCount(value.elapsedMs),
+    mistakes: readCount(value.mistakes),
+    undos: readCount(value.undos),
+    completedAt: typeof value.completedAt === "number" ? value.completedAt : null
+  };
+}
+
+export function migrateSession(raw: unknown): SavedSession | null {
+  if (!isRecord(raw) || typeof raw.version !== "number") {
+    return null;
+  }
+
+  let current = raw;
+  for (let version = raw.version; version < SESSION_SCHEMA_VERSION; version += 1) {
+    const migrate = SESSION_MIGRATIONS[version];
+    if (!migrate) {
+      return null;
+    }
+    current = { ...migrate(current), version: version + 1 };
+  }
+  if (current.version !== SESSION_SCHEMA_VERSION) {
+    return null;
+  }
+
+  const stage = current.stage === "detect" || current.stage === "play" ? current.stage : null;
+  const recognizedValues = readBoard(current.recognizedValues);
+  if (!stage || !recognizedValues) {
+    return null;
+  }
+  const progress = current.progress === null ? null : readGameProgress(current.progress);
+  if (stage === "play" && !progress) {
+    return null;
+  }
+
+  return {
+    version: SESSION_SCHEMA_VERSION,
+    stage,
+    gameId: typeof current.gameId === "string" ? current.gameId : null,
+    recognizedValues,
+    progress,
+    savedAt: typeof current.savedAt === "number" ? current.savedAt : Date.now()
+  };
+}
+
+export function loadSession(): SavedSession | null {
+  try {
+    const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    return raw ? migrateSession(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: Omit<SavedSession, "version" | "savedAt">): void {
+  const payload: SavedSession = { ...session, version: SESSION_SCHEMA_VERSION, savedAt: Date.now() };
+  try {
+    window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(payload));
+  } catch {
+    // Storage unavailable; the session simply will not survive a refresh.
+  }
+}
+
+export function loadSessionPreview(): string | null {
+  try {
+    return window.localStorage.getItem(PREVIEW_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveSessionPreview(previewUrl: string | null): void {
+  try {
+    if (previewUrl === null) {
+      window.localStorage.removeItem(PREVIEW_STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(PREVIEW_STORAGE_KEY, previewUrl);
+    }
+  } catch {
+    // Quota errors (large previews) should not break play; Detect shows the grid without it.
+    clearSessionPreview();
+  }
+}
+
+function clearSessionPreview(): void {
+  try {
+    window.localStorage.removeItem(PREVIEW_STORAGE_KEY);
+  } catch {
+    // Ignore storage access errors.
+  }
+}
+
+export function clearSession(): void {
+  clearSessionPreview();
+  try {
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch {
+    // Ignore storage access errors.
+  }
+}
+
+export type LibraryEntry = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  givens: BoardValues;
+  progress: GameProgress | null;
+  thumbnailUrl: string | null;
+  completed: boolean;
+};
+
+export const LIBRARY_STORAGE_KEY = "sudokupaste.library";
+export const LIBRARY_SCHEMA_VERSION = 1;
+
+export function createGameId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function readLibraryEntry(value: unknown): LibraryEntry | null {
+  if (!isRecord(value) || typeof value.id !== "string") {
+    return null;
+  }
+  const givens = readBoard(value.givens);
+  if (!givens) {
+    return null;
+  }
+  const createdAt = typeof value.createdAt === "number" ? value.createdAt : Date.now();
+  return {
+    id: value.id,
+    createdAt,
+    updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : createdAt,
+    givens,
+    progress: value.progress === null ? null : readGameProgress(value.progress),
+    thumbnailUrl: typeof value.thumbnailUrl === "string" ? value.thumbnailUrl : null,
+    completed: value.completed === true
+  };
+}
+
+// Saved games live in IndexedDB: thumbnails and full move histories outgrow localStorage's
+// few megabytes. Older versions kept them under LIBRARY_STORAGE_KEY; they move over on first open.
+const LIBRARY_DB_NAME = "sudokupaste";
+const LIBRARY_DB_VERSION = 1;
+const LIBRARY_STORE = "games";
+
+function readLegacyLibrary(): LibraryEntry[] {
+  try {
+    const raw = window.localStorage.getItem(LIBRARY_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (!isRecord(parsed) || parsed.version !== LIBRARY_SCHEMA_VERSION || !Array.isArray(parsed.entries)) {
+      return [];
+    }
+    return parsed.entries.flatMap((entry) => {
+      const read = readLibraryEntry(entry);
+      return read ? [read] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+let libraryDbPromise: Promise<IDBDatabase> | null = null;
+
+function openLibraryDb(): Promise<IDBDatabase> {
+  if (!libraryDbPromise) {
+    const request = window.indexedDB.open(LIBRARY_DB_NAME, LIBRARY_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(LIBRARY_STORE, { keyPath: "id" });
+      for (const entry of readLegacyLibrary()) {
+        store.put(entry);
+      }
+    };
+    libraryDbPromise = requestResult(request).then((db) => {
+      // The upgrade transaction has committed, so the legacy copy is no longer needed.
+      try {
+        window.localStorage.removeItem(LIBRARY_STORAGE_KEY);
+      } catch {
+        // Ignore storage access errors.
+      }
+      return db;
+    });
+    libraryDbPromise.catch(() => {
+      libraryDbPromise = null;
+    });
+  }
+  return libraryDbPromise;
+}
+
+export async function loadLibrary(): Promise<LibraryEntry[]> {
+  try {
+    const db = await openLibraryDb();
+    const stored = await requestResult(db.transaction(LIBRARY_STORE).objectStore(LIBRARY_STORE).getAll());
+    return stored
+      .flatMap((entry: unknown) => {
+        const read = readLibraryEntry(entry);
+        return read ? [read] : [];
+      })
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch {
+    // Private browsing modes can refuse IndexedDB; fall back to whatever localStorage has.
+    return readLegacyLibrary();
+  }
+}
+
+// Writes only the games that changed, keyed by id, so a move costs one put and games another
+// tab added are left alone.
+export async function updateLibrary(changed: LibraryEntry[], removedIds: string[]): Promise<void> {
+  if (changed.length === 0 && removedIds.length === 0) {
+    return;
+  }
+  try {
+    const db = await openLibraryDb();
+    const transaction = db.transaction(LIBRARY_STORE, "readwrite");
+    const store = transaction.objectStore(LIBRARY_STORE);
+    for (const entry of changed) {
+      store.put(entry);
+    }
+    for (const id of removedIds) {
+      store.delete(id);
+    }
+    await transactionDone(transaction);
+  } catch {
+    // Storage full or unavailable; keep the in-memory library for this visit.
+  }
+}
+
+export type DifficultyStats = {
+  solved: number;
+  timedSolves: number;
+  totalMs: number;
+  bestMs: number | null;
+  streak: number;
+  bestStreak: number;
+};
+
+export type SolveStats = Record<DifficultyLabel, DifficultyStats>;
+
+export const STATS_STORAGE_KEY = "sudokupaste.stats";
+export const STATS_SCHEMA_VERSION = 1;
+
+function createDifficultyStats(): DifficultyStats {
+  return { solved: 0, timedSolves: 0, totalMs: 0, bestMs: null, streak: 0, bestStreak: 0 };
+}
+
+function readDifficultyStats(value: unknown): DifficultyStats {
+  if (!isRecord(value)) {
+    return createDifficultyStats();
+  }
+  return {
+    solved: readCount(value.solved),
+    timedSolves: readCount(value.timedSolves),
+    totalMs: readCount(value.totalMs),
+    bestMs: typeof value.bestMs === "number" && value.bestMs > 0 ? value.bestMs : null,
+    streak: readCount(value.streak),
+    bestStreak: readCount(value.bestStreak)
+  };
+}
+
+export function loadStats(): SolveStats {
+  let parsed: unknown = null;
+  try {
+    const raw = window.localStorage.getItem(STATS_STORAGE_KEY);
+    parsed = raw ? JSON.parse(raw) : null;
+  } catch {
+    parsed = null;
+  }
+  const byLabel = isRecord(parsed) && parsed.version === STATS_SCHEMA_VERSION && isRecord(parsed.byLabel) ? parsed.byLabel : {};
+  return Object.fromEntries(
+    DIFFICULTY_LABELS.map((label) => [label, readDifficultyStats(byLabel[label])])
+  ) as SolveStats;
+}
+
+export function averageSolveMs(stats: DifficultyStats): number | null {
+  return stats.timedSolves > 0 ? Math.round(stats.totalMs / stats.timedSolves) : null;
+}
+
+// Revealed solves count as played but do not set times and break the streak.
+export function recordSolve(label: DifficultyLabel, elapsedMs: number, revealed: boolean): SolveStats {
+  const stats = loadStats();
+  const previous = stats[label];
+  const streak = revealed ? 0 : previous.streak + 1;
+  const next: DifficultyStats = {
+    solved: previous.solved + 1,
+    timedSolves: previous.timedSolves + (revealed ? 0 : 1),
+    totalMs: previous.totalMs + (revealed ? 0 : elapsedMs),
+    bestMs: revealed || (previous.bestMs !== null && previous.bestMs <= elapsedMs) ? previous.bestMs : elapsedMs,
+    streak,
+    bestStreak: Math.max(previous.bestStreak, streak)
+  };
+  const updated = { ...stats, [label]: next };
+  try {
+    window.localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify({ version: STATS_SCHEMA_VERSION, byLabel: updated }));
+  } catch {
+    // Stats are a nicety; losing one solve is fine.
+  }
+  return updated;
+}
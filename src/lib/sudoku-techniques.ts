@@ -0,0 +1,375 @@
+import {
+  ALL_CANDIDATES,
+  CELL_COUNT,
+  SUDOKU_UNITS,
+  bitForDigit,
+  countCandidates,
+  describeCell,
+  describeUnit,
+  digitsFromMask,
+  getPeers,
+  hasNote,
+  toRowCol,
+  type BoardValues,
+  type SudokuUnit
+} from "@/lib/sudoku";
+import { computeCandidateMasks } from "@/lib/sudoku-solver";
+
+export type TechniqueId =
+  | "hiddenSingle"
+  | "nakedSingle"
+  | "pointing"
+  | "claiming"
+  | "nakedPair"
+  | "hiddenPair"
+  | "nakedTriple"
+  | "hiddenTriple"
+  | "xWing"
+  | "swordfish";
+
+export type CellDigit = {
+  index: number;
+  digit: number;
+};
+
+export type LogicalStep = {
+  technique: TechniqueId;
+  name: string;
+  placements: CellDigit[];
+  eliminations: CellDigit[];
+  cells: number[];
+  units: SudokuUnit[];
+  explanation: string;
+};
+
+export const TECHNIQUE_NAMES: Record<TechniqueId, string> = {
+  hiddenSingle: "Hidden single",
+  nakedSingle: "Naked single",
+  pointing: "Pointing pair",
+  claiming: "Box/line reduction",
+  nakedPair: "Naked pair",
+  hiddenPair: "Hidden pair",
+  nakedTriple: "Naked triple",
+  hiddenTriple: "Hidden triple",
+  xWing: "X-Wing",
+  swordfish: "Swordfish"
+};
+
+// Simplest first: the hint engine and the grader both stop at the first technique that makes progress.
+export const TECHNIQUE_ORDER: TechniqueId[] = [
+  "hiddenSingle",
+  "nakedSingle",
+  "pointing",
+  "claiming",
+  "nakedPair",
+  "hiddenPair",
+  "nakedTriple",
+  "hiddenTriple",
+  "xWing",
+  "swordfish"
+];
+
+const PEERS: number[][] = Array.from({ length: CELL_COUNT }, (_, index) => getPeers(index));
+const ROWS = SUDOKU_UNITS.filter((unit) => unit.kind === "row");
+const COLUMNS = SUDOKU_UNITS.filter((unit) => unit.kind === "column");
+const BOXES = SUDOKU_UNITS.filter((unit) => unit.kind === "box");
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) {
+    return [[]];
+  }
+  const result: T[][] = [];
+  for (let i = 0; i <= items.length - size; i += 1) {
+    for (const rest of combinations(items.slice(i + 1), size - 1)) {
+      result.push([items[i], ...rest]);
+    }
+  }
+  return result;
+}
+
+function formatCells(cells: number[]): string {
+  return cells.map(describeCell).join(", ");
+}
+
+function formatDigits(digits: number[]): string {
+  return digits.join("/");
+}
+
+function unitsOf(index: number): SudokuUnit[] {
+  return SUDOKU_UNITS.filter((unit) => unit.cells.includes(index));
+}
+
+function cellsWithCandidate(values: BoardValues, candidates: number[], cells: number[], digit: number): number[] {
+  return cells.filter((cell) => values[cell] === null && hasNote(candidates[cell], digit));
+}
+
+function eliminationsFor(values: BoardValues, candidates: number[], cells: number[], mask: number): CellDigit[] {
+  const eliminations: CellDigit[] = [];
+  for (const cell of cells) {
+    if (values[cell] !== null) {
+      continue;
+    }
+    for (const digit of digitsFromMask(candidates[cell] & mask)) {
+      eliminations.push({ index: cell, digit });
+    }
+  }
+  return eliminations;
+}
+
+export function computeStepCandidates(values: BoardValues, notes?: number[]): number[] {
+  const computed = computeCandidateMasks(values);
+  if (!notes) {
+    return computed;
+  }
+  return computed.map((mask, index) => {
+    const narrowed = mask & notes[index];
+    return notes[index] !== 0 && narrowed !== 0 ? narrowed : mask;
+  });
+}
+
+function findHiddenSingle(values: BoardValues, candidates: number[]): LogicalStep | null {
+  for (const unit of [...BOXES, ...ROWS, ...COLUMNS]) {
+    for (let digit = 1; digit <= 9; digit += 1) {
+      if (unit.cells.some((cell) => values[cell] === digit)) {
+        continue;
+      }
+      const spots = cellsWithCandidate(values, candidates, unit.cells, digit);
+      if (spots.length !== 1) {
+        continue;
+      }
+      return {
+        technique: "hiddenSingle",
+        name: TECHNIQUE_NAMES.hiddenSingle,
+        placements: [{ index: spots[0], digit }],
+        eliminations: [],
+        cells: spots,
+        units: [unit],
+        explanation: `In ${describeUnit(unit)}, ${digit} can only go in ${describeCell(spots[0])}.`
+      };
+    }
+  }
+  return null;
+}
+
+function findNakedSingle(values: BoardValues, candidates: number[]): LogicalStep | null {
+  for (let index = 0; index < CELL_COUNT; index += 1) {
+    if (values[index] !== null || countCandidates(candidates[index]) !== 1) {
+      continue;
+    }
+    const digit = digitsFromMask(candidates[index])[0];
+    return {
+      technique: "nakedSingle",
+      name: TECHNIQUE_NAMES.nakedSingle,
+      placements: [{ index, digit }],
+      eliminations: [],
+      cells: [index],
+      units: unitsOf(index),
+      explanation: `${describeCell(index)} sees every digit except ${digit}, so it must be ${digit}.`
+    };
+  }
+  return null;
+}
+
+function findIntersection(
+  values: BoardValues,
+  candidates: number[],
+  technique: "pointing" | "claiming"
+): LogicalStep | null {
+  const baseUnits = technique === "pointing" ? BOXES : [...ROWS, ...COLUMNS];
+  for (const base of baseUnits) {
+    for (let digit = 1; digit <= 9; digit += 1) {
+      const spots = cellsWithCandidate(values, candidates, base.cells, digit);
+      if (spots.length < 2) {
+        continue;
+      }
+      const targets = (technique === "pointing" ? [...ROWS, ...COLUMNS] : BOXES).filter(
+        (unit) => unit !== base && spots.every((spot) => unit.cells.includes(spot))
+      );
+      for (const target of targets) {
+        const others = target.cells.filter((cell) => !base.cells.includes(cell));
+        const eliminations = eliminationsFor(values, candidates, others, bitForDigit(digit));
+        if (eliminations.length === 0) {
+          continue;
+        }
+        const explanation =
+          technique === "pointing"
+            ? `In ${describeUnit(base)}, ${digit} is confined to ${describeUnit(target)} (${formatCells(spots)}), ` +
+              `so it can be removed from the rest of ${describeUnit(target)}.`
+            : `In ${describeUnit(base)}, ${digit} only appears inside ${describeUnit(target)} (${formatCells(spots)}), ` +
+              `so it can be removed from the rest of ${describeUnit(target)}.`;
+        return {
+          technique,
+          name: TECHNIQUE_NAMES[technique],
+          placements: [],
+          eliminations,
+          cells: spots,
+          units: [base, target],
+          explanation
+        };
+      }
+    }
+  }
+  return null;
+}
+
+function findNakedSubset(values: BoardValues, candidates: number[], size: 2 | 3): LogicalStep | null {
+  const technique = size === 2 ? "nakedPair" : "nakedTriple";
+  for (const unit of SUDOKU_UNITS) {
+    const open = unit.cells.filter(
+      (cell) => values[cell] === null && countCandidates(candidates[cell]) >= 2 && countCandidates(candidates[cell]) <= size
+    );
+    for (const group of combinations(open, size)) {
+      const union = group.reduce((mask, cell) => mask | candidates[cell], 0);
+      if (countCandidates(union) !== size) {
+        continue;
+      }
+      const others = unit.cells.filter((cell) => !group.includes(cell));
+      const eliminations = eliminationsFor(values, candidates, others, union);
+      if (eliminations.length === 0) {
+        continue;
+      }
+      const digits = digitsFromMask(union);
+      return {
+        technique,
+        name: TECHNIQUE_NAMES[technique],
+        placements: [],
+        eliminations,
+        cells: group,
+        units: [unit],
+        explanation:
+          `${formatCells(group)} can only hold ${formatDigits(digits)} between them, ` +
+          `so those digits can be removed from the rest of ${describeUnit(unit)}.`
+      };
+    }
+  }
+  return null;
+}
+
+function findHiddenSubset(values: BoardValues, candidates: number[], size: 2 | 3): LogicalStep | null {
+  const technique = size === 2 ? "hiddenPair" : "hiddenTriple";
+  for (const unit of SUDOKU_UNITS) {
+    const missing: number[] = [];
+    for (let digit = 1; digit <= 9; digit += 1) {
+      const spots = cellsWithCandidate(values, candidates, unit.cells, digit).length;
+      if (spots >= 2 && spots <= size) {
+        missing.push(digit);
+      }
+    }
+    for (const digits of combinations(missing, size)) {
+      const mask = digits.reduce((acc, digit) => acc | bitForDigit(digit), 0);
+      const group = unit.cells.filter((cell) => values[cell] === null && (candidates[cell] & mask) !== 0);
+      if (group.length !== size) {
+        continue;
+      }
+      const eliminations = eliminationsFor(values, candidates, group, ~mask & ALL_CANDIDATES);
+      if (eliminations.length === 0) {
+        continue;
+      }
+      return {
+        technique,
+        name: TECHNIQUE_NAMES[technique],
+        placements: [],
+        eliminations,
+        cells: group,
+        units: [unit],
+        explanation:
+          `In ${describeUnit(unit)}, ${formatDigits(digits)} only fit in ${formatCells(group)}, ` +
+          `so every other candidate can be removed from those cells.`
+      };
+    }
+  }
+  return null;
+}
+
+function findFish(values: BoardValues, candidates: number[], size: 2 | 3): LogicalStep | null {
+  const technique = size === 2 ? "xWing" : "swordfish";
+  const orientations: [SudokuUnit[], SudokuUnit[], "row" | "column"][] = [
+    [ROWS, COLUMNS, "column"],
+    [COLUMNS, ROWS, "row"]
+  ];
+
+  for (const [bases, covers, coverAxis] of orientations) {
+    for (let digit = 1; digit <= 9; digit += 1) {
+      const eligible = bases.filter((base) => {
+        const spots = cellsWithCandidate(values, candidates, base.cells, digit).length;
+        return spots >= 2 && spots <= size;
+      });
+      for (const group of combinations(eligible, size)) {
+        const spots = group.flatMap((base) => cellsWithCandidate(values, candidates, base.cells, digit));
+        const coverIndexes = new Set(
+          spots.map((spot) => (coverAxis === "column" ? toRowCol(spot).col : toRowCol(spot).row))
+        );
+        if (coverIndexes.size !== size) {
+          continue;
+        }
+        const coverUnits = covers.filter((unit) => coverIndexes.has(unit.index));
+        const others = coverUnits.flatMap((unit) => unit.cells).filter((cell) => !group.some((base) => base.cells.includes(cell)));
+        const eliminations = eliminationsFor(values, candidates, others, bitForDigit(digit));
+        if (eliminations.length === 0) {
+          continue;
+        }
+        return {
+          technique,
+          name: TECHNIQUE_NAMES[technique],
+          placements: [],
+          eliminations,
+          cells: spots,
+          units: [...group, ...coverUnits],
+          explanation:
+            `In ${group.map(describeUnit).join(", ")}, ${digit} is limited to ${coverUnits.map(describeUnit).join(", ")}. ` +
+            `One ${digit} must land in each of those, so ${digit} can be removed from the rest of them.`
+        };
+      }
+    }
+  }
+  return null;
+}
+
+const FINDERS: Record<TechniqueId, (values: BoardValues, candidates: number[]) => LogicalStep | null> = {
+  hiddenSingle: findHiddenSingle,
+  nakedSingle: findNakedSingle,
+  pointing: (values, candidates) => findIntersection(values, candidates, "pointing"),
+  claiming: (values, candidates) => findIntersection(values, candidates, "claiming"),
+  nakedPair: (values, candidates) => findNakedSubset(values, candidates, 2),
+  hiddenPair: (values, candidates) => findHiddenSubset(values, candidates, 2),
+  nakedTriple: (values, candidates) => findNakedSubset(values, candidates, 3),
+  hiddenTriple: (values, candidates) => findHiddenSubset(values, candidates, 3),
+  xWing: (values, candidates) => findFish(values, candidates, 2),
+  swordfish: (values, candidates) => findFish(values, candidates, 3)
+};
+
+export function findNextStep(
+  values: BoardValues,
+  candidates: number[],
+  techniques: TechniqueId[] = TECHNIQUE_ORDER
+): LogicalStep | null {
+  for (const technique of techniques) {
+    const step = FINDERS[technique](values, candidates);
+    if (step) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function applyStep(
+  values: BoardValues,
+  candidates: number[],
+  step: LogicalStep
+): { values: BoardValues; candidates: number[] } {
+  const nextValues = [...values];
+  const nextCandidates = [...candidates];
+
+  for (const { index, digit } of step.eliminations) {
+    nextCandidates[index] &= ~bitForDigit(digit);
+  }
+  for (const { index, digit } of step.placements) {
+    nextValues[index] = digit;
+    nextCandidates[index] = 0;
+    for (const peer of PEERS[index]) {
+      nextCandidates[peer] &= ~bitForDigit(digit);
+    }
+  }
+
+  return { values: nextValues, candidates: nextCandidates };
+}
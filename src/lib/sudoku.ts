@@ -101,3 +101,74 @@ export function bitForDigit(digit: number): number {
 export function hasNote(noteMask: number, digit: number): boolean {
   return (noteMask & bitForDigit(digit)) !== 0;
 }
+
+export const ALL_CANDIDATES = 0x1ff;
+
+export function countCandidates(mask: number): number {
+  let count = 0;
+  let rest = mask;
+  while (rest !== 0) {
+    rest &= rest - 1;
+    count += 1;
+  }
+  return count;
+}
+
+export function digitsFromMask(mask: number): number[] {
+  const digits: number[] = [];
+  for (let digit = 1; digit <= 9; digit += 1) {
+    if (hasNote(mask, digit)) {
+      digits.push(digit);
+    }
+  }
+  return digits;
+}
+
+export type UnitKind = "row" | "column" | "box";
+
+export type SudokuUnit = {
+  kind: UnitKind;
+  index: number;
+  cells: number[];
+};
+
+function buildUnits(): SudokuUnit[] {
+  const rows: SudokuUnit[] = [];
+  const columns: SudokuUnit[] = [];
+  const boxes: SudokuUnit[] = [];
+  for (let i = 0; i < BOARD_SIZE; i += 1) {
+    const boxRow = Math.floor(i / 3) * 3;
+    const boxCol = (i % 3) * 3;
+    const rowCells: number[] = [];
+    const colCells: number[] = [];
+    const boxCells: number[] = [];
+    for (let j = 0; j < BOARD_SIZE; j += 1) {
+      rowCells.push(toIndex(i, j));
+      colCells.push(toIndex(j, i));
+      boxCells.push(toIndex(boxRow + Math.floor(j / 3), boxCol + (j % 3)));
+    }
+    rows.push({ kind: "row", index: i, cells: rowCells });
+    columns.push({ kind: "column", index: i, cells: colCells });
+    boxes.push({ kind: "box", index: i, cells: boxCells });
+  }
+  return [...rows, ...columns, ...boxes];
+}
+
+export const SUDOKU_UNITS: SudokuUnit[] = buildUnits();
+
+export function describeUnit(unit: SudokuUnit): string {
+  return `${unit.kind} ${unit.index + 1}`;
+}
+
+export function describeCell(index: number): string {
+  const { row, col } = toRowCol(index);
+  return `r${row + 1}c${col + 1}`;
+}
+
+export function boardsEqual(a: BoardValues, b: BoardValues): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index]);
+}
+
+export function isBoardSolved(values: BoardValues): boolean {
+  return values.every((value) => value !== null) && !computeConflictMask(values).some(Boolean);
+}